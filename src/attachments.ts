@@ -0,0 +1,58 @@
+import type { Attachment, SafeContent } from './types';
+import { fromBase64, toBase64 } from './encoding';
+
+/** Reads a picked, dropped or pasted file into an attachment. */
+export function readAttachment(file: File): Promise<Attachment> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      resolve({
+        name: file.name,
+        type: file.type,
+        size: file.size,
+        dataUrl: reader.result as string,
+      });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Content stored or sealed before attachments kept at most one image, in
+ * `imageDataUrl`. It becomes the first attachment; FileReader only ever
+ * produced base64 data URLs, so the size follows from the data length.
+ */
+export function upgradeContent(content: SafeContent): SafeContent {
+  const { imageDataUrl, ...rest } = content as SafeContent & {
+    imageDataUrl?: unknown;
+  };
+  if (typeof imageDataUrl !== 'string') return content;
+  const type = /^data:([^;,]*)/.exec(imageDataUrl)?.[1] ?? '';
+  const data = imageDataUrl.slice(imageDataUrl.indexOf(',') + 1);
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  const image: Attachment = {
+    name: `image.${type.split('/')[1]?.split('+')[0] || 'bin'}`,
+    type,
+    size: Math.max(0, Math.floor((data.length * 3) / 4) - padding),
+    dataUrl: imageDataUrl,
+  };
+  return { ...rest, attachments: [image, ...(rest.attachments ?? [])] };
+}
+
+/** The bytes of a base64 data URL; undefined for any other kind. */
+export function dataUrlToBlob(dataUrl: string): Blob | undefined {
+  const match = /^data:([^,]*?)(;base64)?,/.exec(dataUrl);
+  if (!match?.[2]) return undefined;
+  try {
+    const bytes = fromBase64(dataUrl.slice(match[0].length));
+    return new Blob([bytes], { type: match[1] });
+  } catch {
+    return undefined;
+  }
+}
+
+export async function blobToDataUrl(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return `data:${blob.type};base64,${toBase64(bytes)}`;
+}
@@ -0,0 +1,177 @@
+import type { Attachment, Compartment, Damage, SafeContent } from './types';
+import { blobToDataUrl, dataUrlToBlob } from './attachments';
+
+/**
+ * Partial damage. A closed safe can't be read, so explosions and wrong
+ * PINs only add to the `damage` its runtime records (see safeMachine.ts);
+ * the loss is carried out here, on the content as it is unsealed. Every
+ * word, file and photo tile draws a fixed number from the damage seed and
+ * is lost once the damaged share rises above it, so more damage only ever
+ * takes more, and the same safe always loses the same parts.
+ */
+
+export interface DamageReport {
+  words: number;
+  wordsLost: number;
+  files: number;
+  filesLost: number;
+  photosDamaged: number;
+}
+
+const TILES = 8; // photos are split into TILES × TILES squares
+const REDACTED = '█';
+const PIXELATED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Words, files and tiles draw from separate streams of the same seed.
+const WORDS = 1;
+const FILES = 2;
+const TILE_STREAM = 3;
+
+/** A number in [0, 1) fixed by the seed, stream and index (Mulberry32). */
+function draw(seed: number, stream: number, index: number): number {
+  let x =
+    (seed ^ Math.imul(stream, 0x9e3779b9) ^ Math.imul(index, 0x85ebca6b)) | 0;
+  x = (x + 0x6d2b79f5) | 0;
+  x = Math.imul(x ^ (x >>> 15), x | 1);
+  x ^= x + Math.imul(x ^ (x >>> 7), x | 61);
+  return ((x ^ (x >>> 14)) >>> 0) / 2 ** 32;
+}
+
+function damageText(
+  text: string,
+  damage: Damage,
+  report: DamageReport,
+): string {
+  let index = 0;
+  return text.replace(/\S+/g, (word) => {
+    report.words += 1;
+    if (draw(damage.seed, WORDS, index++) >= damage.share) return word;
+    report.wordsLost += 1;
+    return REDACTED.repeat([...word].length);
+  });
+}
+
+async function pixelate(
+  attachment: Attachment,
+  damage: Damage,
+  index: number,
+): Promise<Attachment | undefined> {
+  const blob = dataUrlToBlob(attachment.dataUrl);
+  if (!blob) return undefined;
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob);
+  } catch {
+    return undefined;
+  }
+  const { width, height } = bitmap;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) return undefined;
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const tileWidth = Math.ceil(width / TILES);
+  const tileHeight = Math.ceil(height / TILES);
+  // A lost tile is shrunk to a few pixels and blown up again.
+  const mosaic = document.createElement('canvas');
+  mosaic.width = 3;
+  mosaic.height = 3;
+  const mosaicContext = mosaic.getContext('2d');
+  if (!mosaicContext) return undefined;
+  context.imageSmoothingEnabled = false;
+  let lost = 0;
+  for (let tile = 0; tile < TILES * TILES; tile++) {
+    const draws = draw(damage.seed, TILE_STREAM, index * TILES * TILES + tile);
+    if (draws >= damage.share) continue;
+    const x = (tile % TILES) * tileWidth;
+    const y = Math.floor(tile / TILES) * tileHeight;
+    mosaicContext.clearRect(0, 0, 3, 3);
+    mosaicContext.drawImage(canvas, x, y, tileWidth, tileHeight, 0, 0, 3, 3);
+    context.drawImage(mosaic, 0, 0, 3, 3, x, y, tileWidth, tileHeight);
+    lost += 1;
+  }
+  if (lost === 0) return attachment;
+  const type = PIXELATED_TYPES.includes(attachment.type)
+    ? attachment.type
+    : 'image/png';
+  const output = await new Promise<Blob | null>((resolve) => {
+    canvas.toBlob(resolve, type);
+  });
+  if (!output) return undefined;
+  return {
+    ...attachment,
+    type: output.type,
+    size: output.size,
+    dataUrl: await blobToDataUrl(output),
+  };
+}
+
+async function damageAttachments(
+  attachments: Attachment[],
+  damage: Damage,
+  report: DamageReport,
+): Promise<Attachment[]> {
+  const kept: Attachment[] = [];
+  for (const [index, attachment] of attachments.entries()) {
+    report.files += 1;
+    if (attachment.type.startsWith('image/')) {
+      // Photos lose tiles rather than the whole picture.
+      const pixelated = await pixelate(attachment, damage, index);
+      if (pixelated) {
+        if (pixelated !== attachment) report.photosDamaged += 1;
+        kept.push(pixelated);
+        continue;
+      }
+    }
+    if (draw(damage.seed, FILES, index) < damage.share) {
+      report.filesLost += 1;
+    } else {
+      kept.push(attachment);
+    }
+  }
+  return kept;
+}
+
+async function damageContent(
+  content: SafeContent,
+  damage: Damage,
+  report: DamageReport,
+): Promise<SafeContent> {
+  const damaged: SafeContent = {
+    ...content,
+    text: damageText(content.text, damage, report),
+  };
+  if (content.attachments) {
+    const attachments = await damageAttachments(
+      content.attachments,
+      damage,
+      report,
+    );
+    if (attachments.length > 0) damaged.attachments = attachments;
+    else delete damaged.attachments;
+  }
+  return damaged;
+}
+
+/** Carries out the damage on both compartments of an unsealed safe. */
+export async function applyDamage(
+  compartment: Compartment,
+  damage: Damage,
+): Promise<[Compartment, DamageReport]> {
+  const report: DamageReport = {
+    words: 0,
+    wordsLost: 0,
+    files: 0,
+    filesLost: 0,
+    photosDamaged: 0,
+  };
+  const content = await damageContent(compartment.content, damage, report);
+  if (!compartment.decoy) return [{ ...compartment, content }, report];
+  // The report describes the compartment that was opened.
+  const decoy = await damageContent(compartment.decoy, damage, {
+    ...report,
+  });
+  return [{ ...compartment, content, decoy }, report];
+}
@@ -0,0 +1,249 @@
+import type { SafeRuntime, SafeSettings } from './types';
+import { survivedBy, type SafeEvent } from './safeMachine';
+
+/**
+ * Sound and motion for what happens to a safe. dispatch collects the
+ * effects of each state change its events make and plays them once the
+ * new view is on screen. Sounds are synthesized with the Web Audio API,
+ * so there is nothing to download, and motion is left out for anyone who
+ * asked their system for less of it.
+ */
+export type Effect = 'explode' | 'survive' | 'lock' | 'unlock';
+
+/** The share of the countdown left when the ticking starts. */
+export const TICKING_SHARE = 0.1;
+
+const DEBRIS_PIECES = 18;
+
+let audio: AudioContext | undefined;
+
+export function effectsOf(
+  event: SafeEvent,
+  from: SafeRuntime,
+  to: SafeRuntime,
+): Effect[] {
+  if (from.state !== 'destroyed' && to.state === 'destroyed') {
+    return ['explode'];
+  }
+  if (survivedBy(event, from, to)) return ['survive'];
+  if (from.state === 'open' && to.state === 'closed') return ['lock'];
+  if (from.state === 'closed' && to.state === 'open') return ['unlock'];
+  return [];
+}
+
+function soundOn(settings: SafeSettings): boolean {
+  return settings.sound !== false;
+}
+
+function motionOn(settings: SafeSettings): boolean {
+  return (
+    settings.motion !== false &&
+    !window.matchMedia?.('(prefers-reduced-motion: reduce)').matches
+  );
+}
+
+/**
+ * Browsers keep audio suspended until the page is interacted with; a
+ * context resumed from a click or key press can play later explosions
+ * that a timer sets off.
+ */
+export function primeSound(): void {
+  void context()?.resume();
+}
+
+function context(): AudioContext | undefined {
+  if (!audio && typeof AudioContext !== 'undefined') {
+    try {
+      audio = new AudioContext();
+    } catch {
+      return undefined;
+    }
+  }
+  return audio;
+}
+
+function envelope(
+  ctx: AudioContext,
+  at: number,
+  peak: number,
+  length: number,
+): GainNode {
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(peak, at);
+  gain.gain.exponentialRampToValueAtTime(0.001, at + length);
+  gain.connect(ctx.destination);
+  return gain;
+}
+
+function noise(
+  ctx: AudioContext,
+  at: number,
+  length: number,
+  filter: BiquadFilterType,
+  from: number,
+  to: number,
+  peak: number,
+): void {
+  const buffer = ctx.createBuffer(
+    1,
+    Math.ceil(ctx.sampleRate * length),
+    ctx.sampleRate,
+  );
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  const shaping = ctx.createBiquadFilter();
+  shaping.type = filter;
+  shaping.frequency.setValueAtTime(from, at);
+  shaping.frequency.exponentialRampToValueAtTime(to, at + length);
+  source.connect(shaping).connect(envelope(ctx, at, peak, length));
+  source.start(at);
+  source.stop(at + length);
+}
+
+function tone(
+  ctx: AudioContext,
+  at: number,
+  length: number,
+  type: OscillatorType,
+  from: number,
+  to: number,
+  peak: number,
+): void {
+  const oscillator = ctx.createOscillator();
+  oscillator.type = type;
+  oscillator.frequency.setValueAtTime(from, at);
+  oscillator.frequency.exponentialRampToValueAtTime(to, at + length);
+  oscillator.connect(envelope(ctx, at, peak, length));
+  oscillator.start(at);
+  oscillator.stop(at + length);
+}
+
+function playSound(effect: Effect | 'tick'): void {
+  const ctx = context();
+  if (!ctx) return;
+  const now = ctx.currentTime;
+  switch (effect) {
+    case 'explode':
+      // A low thump under a roar that darkens as it fades.
+      tone(ctx, now, 0.8, 'sine', 90, 30, 0.9);
+      noise(ctx, now, 1.8, 'lowpass', 2400, 80, 0.8);
+      break;
+    case 'survive':
+      // A muffled bang, then two notes of relief.
+      noise(ctx, now, 0.5, 'lowpass', 900, 100, 0.5);
+      tone(ctx, now + 0.45, 0.25, 'triangle', 523, 523, 0.3);
+      tone(ctx, now + 0.7, 0.45, 'triangle', 784, 784, 0.3);
+      break;
+    case 'lock':
+      // The dial clicks over, then the bolt lands.
+      noise(ctx, now, 0.04, 'highpass', 3000, 3000, 0.4);
+      noise(ctx, now + 0.12, 0.04, 'highpass', 3000, 3000, 0.4);
+      tone(ctx, now + 0.25, 0.15, 'sine', 160, 80, 0.6);
+      break;
+    case 'unlock':
+      tone(ctx, now, 0.12, 'sine', 120, 200, 0.5);
+      noise(ctx, now + 0.15, 0.04, 'highpass', 3000, 3000, 0.4);
+      noise(ctx, now + 0.27, 0.04, 'highpass', 3000, 3000, 0.4);
+      break;
+    case 'tick':
+      tone(ctx, now, 0.03, 'square', 1400, 1400, 0.1);
+      break;
+  }
+}
+
+/** Runs a CSS animation by class and takes the class off when it ends. */
+function animate(element: Element, className: string): void {
+  element.classList.remove(className);
+  // Reading the layout restarts an animation that is still running.
+  void (element as HTMLElement).offsetWidth;
+  element.classList.add(className);
+  element.addEventListener(
+    'animationend',
+    () => element.classList.remove(className),
+    { once: true },
+  );
+}
+
+/** An element over the page, gone after `lifetime` ms. */
+function overlay(className: string, lifetime: number): HTMLElement {
+  const element = document.createElement('div');
+  element.className = className;
+  element.setAttribute('aria-hidden', 'true');
+  document.body.appendChild(element);
+  window.setTimeout(() => element.remove(), lifetime);
+  return element;
+}
+
+function centreOf(element: Element | null): [number, number] {
+  const rect = element?.getBoundingClientRect();
+  if (!rect || rect.width === 0) {
+    return [window.innerWidth / 2, window.innerHeight / 2];
+  }
+  return [rect.left + rect.width / 2, rect.top + rect.height / 2];
+}
+
+function explode(panel: Element): void {
+  animate(panel, 'effect-shake');
+  window.setTimeout(() => overlay('effect-flash', 700), 150);
+  window.setTimeout(() => {
+    const [x, y] = centreOf(panel.querySelector('.destroyed-emoji'));
+    const debris = overlay('effect-debris', 1400);
+    debris.style.left = `${x}px`;
+    debris.style.top = `${y}px`;
+    for (let i = 0; i < DEBRIS_PIECES; i++) {
+      const piece = document.createElement('span');
+      const angle = (i / DEBRIS_PIECES) * 2 * Math.PI + Math.random() * 0.3;
+      const distance = 120 + Math.random() * 160;
+      piece.style.setProperty('--dx', `${Math.cos(angle) * distance}px`);
+      piece.style.setProperty('--dy', `${Math.sin(angle) * distance}px`);
+      piece.style.setProperty('--spin', `${Math.random() * 720 - 360}deg`);
+      debris.appendChild(piece);
+    }
+  }, 250);
+}
+
+function survive(panel: Element): void {
+  animate(panel, 'effect-shake');
+  window.setTimeout(() => animate(panel, 'effect-survived'), 450);
+}
+
+/** A bolt lock over the safe icon, turning shut or open. */
+function turnBolt(panel: Element, closing: boolean): void {
+  const [x, y] = centreOf(panel.querySelector('.safe-icon'));
+  const lock = overlay(
+    `effect-lock ${closing ? 'effect-lock--closing' : 'effect-lock--opening'}`,
+    900,
+  );
+  lock.style.left = `${x}px`;
+  lock.style.top = `${y}px`;
+  lock.appendChild(document.createElement('span')).className =
+    'effect-lock-bolt';
+}
+
+export function playEffects(effects: Effect[], settings: SafeSettings): void {
+  if (effects.length === 0) return;
+  const panel = document.querySelector('.safe-panel');
+  for (const effect of effects) {
+    if (soundOn(settings)) playSound(effect);
+    if (!panel || !motionOn(settings)) continue;
+    switch (effect) {
+      case 'explode':
+        explode(panel);
+        break;
+      case 'survive':
+        survive(panel);
+        break;
+      case 'lock':
+      case 'unlock':
+        turnBolt(panel, effect === 'lock');
+        break;
+    }
+  }
+}
+
+/** One tick of the clock running out, when the safe's sound is on. */
+export function playTick(settings: SafeSettings): void {
+  if (soundOn(settings)) playSound('tick');
+}
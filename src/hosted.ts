@@ -0,0 +1,170 @@
+import type { SafeRuntime, SafeSettings, SealedContent } from './types';
+import { isSealedContent } from './vault';
+import { LOCK_TYPES } from './safeMachine';
+
+/**
+ * Client for safes whose rules are enforced by the Worker (see worker.ts).
+ * The server keeps the PIN hash and the sealed content to itself: status
+ * responses only carry the runtime a player is allowed to see, and the
+ * sealed content only comes back from an attempt with the right PIN, which
+ * works again while the safe stays open.
+ */
+const API_BASE = '/api/safes';
+
+// Workers cap PBKDF2 at 100k iterations. The hash never leaves the server,
+// so the lower cost does not open it to offline guessing.
+export const HOSTED_PIN_KDF_ITERATIONS = 100_000;
+
+export type HostedRules = Pick<
+  SafeSettings,
+  | 'survivalEnabled'
+  | 'survivalChance'
+  | 'autodestructMinutes'
+  | 'deadManSwitch'
+  | 'pinAttemptsLimit'
+  | 'lockoutAfter'
+  | 'lockType'
+  | 'unlockAt'
+>;
+
+export interface HostedResponse {
+  hostedId: string;
+  runtime: SafeRuntime;
+  sealed?: SealedContent; // only after a correct attempt
+}
+
+export interface HostedCloseRequest {
+  pinHash: string;
+  sealed: SealedContent;
+  rules: HostedRules;
+}
+
+export class HostedSafeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HostedSafeError';
+  }
+}
+
+function optionalInRange(value: unknown, max: number): boolean {
+  if (value === undefined) return true;
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= 1 &&
+    value <= max
+  );
+}
+
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/** A PBKDF2 hash (see pin.ts) at the only cost the Worker accepts. */
+function isHostedPinHash(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  const [algorithm, iterations, salt, digest, ...rest] = value.split('$');
+  return (
+    algorithm === 'pbkdf2-sha256' &&
+    iterations === String(HOSTED_PIN_KDF_ITERATIONS) &&
+    BASE64.test(salt ?? '') &&
+    BASE64.test(digest ?? '') &&
+    rest.length === 0
+  );
+}
+
+export function isHostedCloseRequest(
+  value: unknown,
+): value is HostedCloseRequest {
+  if (typeof value !== 'object' || value === null) return false;
+  const { pinHash, sealed, rules } = value as Partial<HostedCloseRequest>;
+  return (
+    isHostedPinHash(pinHash) &&
+    isSealedContent(sealed) &&
+    typeof rules === 'object' &&
+    rules !== null &&
+    typeof rules.survivalEnabled === 'boolean' &&
+    optionalInRange(rules.survivalChance, 100) &&
+    optionalInRange(rules.autodestructMinutes, 999) &&
+    (rules.deadManSwitch === undefined ||
+      typeof rules.deadManSwitch === 'boolean') &&
+    optionalInRange(rules.pinAttemptsLimit, 999) &&
+    optionalInRange(rules.lockoutAfter, 999) &&
+    (rules.lockType === undefined || LOCK_TYPES.includes(rules.lockType)) &&
+    (rules.unlockAt === undefined ||
+      (Number.isInteger(rules.unlockAt) && rules.unlockAt > 0))
+  );
+}
+
+export function hostedRules(settings: SafeSettings): HostedRules {
+  return {
+    survivalEnabled: settings.survivalEnabled,
+    survivalChance: settings.survivalChance,
+    autodestructMinutes: settings.autodestructMinutes,
+    deadManSwitch: settings.deadManSwitch,
+    pinAttemptsLimit: settings.pinAttemptsLimit,
+    lockoutAfter: settings.lockoutAfter,
+    lockType: settings.lockType,
+    unlockAt: settings.unlockAt,
+  };
+}
+
+async function request(
+  path: string,
+  init: RequestInit = {},
+): Promise<HostedResponse> {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch {
+    throw new HostedSafeError('Hosted safe service is unreachable');
+  }
+  if (!response.ok) {
+    throw new HostedSafeError(`Hosted safe request failed: ${response.status}`);
+  }
+  return (await response.json()) as HostedResponse;
+}
+
+export function createHostedSafe(): Promise<HostedResponse> {
+  return request('', { method: 'POST' });
+}
+
+export function fetchHostedSafe(hostedId: string): Promise<HostedResponse> {
+  return request(`/${hostedId}`);
+}
+
+export function closeHostedSafe(
+  hostedId: string,
+  body: HostedCloseRequest,
+): Promise<HostedResponse> {
+  return request(`/${hostedId}/close`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+export function attemptHostedSafe(
+  hostedId: string,
+  pin: string,
+): Promise<HostedResponse> {
+  return request(`/${hostedId}/attempt`, {
+    method: 'POST',
+    body: JSON.stringify({ pin }),
+  });
+}
+
+/** Proves the PIN to restart a dead man's switch; counts if it's wrong. */
+export function checkInHostedSafe(
+  hostedId: string,
+  pin: string,
+): Promise<HostedResponse> {
+  return request(`/${hostedId}/checkin`, {
+    method: 'POST',
+    body: JSON.stringify({ pin }),
+  });
+}
+
+export function explodeHostedSafe(hostedId: string): Promise<HostedResponse> {
+  return request(`/${hostedId}/explode`, { method: 'POST' });
+}
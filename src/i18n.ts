@@ -11,6 +11,10 @@ export function setLang(lang: Lang): void {
   document.documentElement.lang = lang;
 }
 
+export function getLang(): Lang {
+  return current;
+}
+
 export function t(key: keyof typeof en): string {
   return messages[current][key];
 }
@@ -0,0 +1,126 @@
+import type { ImageFormat, SafeSettings } from './types';
+
+/**
+ * Photos are redrawn onto a canvas before they go into a safe: scaled down
+ * to fit the safe's maximum size and encoded anew, which leaves EXIF, GPS
+ * and every other kind of metadata behind.
+ */
+
+export interface ImageOptions {
+  maxSize: number; // longer side, in pixels
+  format: ImageFormat;
+  quality: number; // 1–100
+}
+
+export interface ProcessedImage {
+  original: File;
+  width?: number;
+  height?: number;
+  /** The re-encoded image; undefined when the browser can't decode it. */
+  file?: File;
+  outputWidth?: number;
+  outputHeight?: number;
+}
+
+export const DEFAULT_IMAGE_MAX_SIZE = 1600;
+export const MIN_IMAGE_SIZE = 64;
+export const MAX_IMAGE_SIZE = 8192;
+export const DEFAULT_IMAGE_QUALITY = 80;
+
+// Animated GIFs would lose their frames and SVGs their vectors, so only
+// still raster formats are redrawn.
+const PROCESSED_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/avif',
+  'image/bmp',
+  'image/heic',
+  'image/heif',
+];
+
+export function isProcessedImage(file: File): boolean {
+  return PROCESSED_TYPES.includes(file.type);
+}
+
+export function imageOptions(settings: SafeSettings): ImageOptions {
+  return {
+    maxSize: settings.imageMaxSize ?? DEFAULT_IMAGE_MAX_SIZE,
+    format: settings.imageFormat ?? 'webp',
+    quality: settings.imageQuality ?? DEFAULT_IMAGE_QUALITY,
+  };
+}
+
+function encode(
+  bitmap: ImageBitmap,
+  width: number,
+  height: number,
+  format: ImageFormat,
+  quality: number,
+): Promise<Blob | null> {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) return Promise.resolve(null);
+  if (format === 'jpeg') {
+    // JPEG has no transparency, which would otherwise turn black.
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, width, height);
+  }
+  context.drawImage(bitmap, 0, 0, width, height);
+  return new Promise((resolve) => {
+    canvas.toBlob(resolve, `image/${format}`, quality / 100);
+  });
+}
+
+function renamed(name: string, format: ImageFormat): string {
+  const base = name.replace(/\.[^.]*$/, '') || 'image';
+  return `${base}.${format === 'jpeg' ? 'jpg' : format}`;
+}
+
+export async function processImage(
+  file: File,
+  options: ImageOptions,
+): Promise<ProcessedImage> {
+  let bitmap: ImageBitmap;
+  try {
+    // Turned upright first, since the EXIF orientation goes with the rest.
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    return { original: file };
+  }
+  const { width, height } = bitmap;
+  const scale = Math.min(1, options.maxSize / Math.max(width, height));
+  const outputWidth = Math.max(1, Math.round(width * scale));
+  const outputHeight = Math.max(1, Math.round(height * scale));
+  let format = options.format;
+  let blob = await encode(
+    bitmap,
+    outputWidth,
+    outputHeight,
+    format,
+    options.quality,
+  );
+  // Browsers without a WebP encoder hand back a PNG instead.
+  if (blob?.type !== `image/${format}`) {
+    format = 'jpeg';
+    blob = await encode(
+      bitmap,
+      outputWidth,
+      outputHeight,
+      format,
+      options.quality,
+    );
+  }
+  bitmap.close();
+  if (!blob) return { original: file, width, height };
+  return {
+    original: file,
+    width,
+    height,
+    file: new File([blob], renamed(file.name, format), { type: blob.type }),
+    outputWidth,
+    outputHeight,
+  };
+}
@@ -0,0 +1,83 @@
+import type { SafeSnapshot } from './types';
+import { fromBase64, toBase64 } from './encoding';
+
+/**
+ * Integrity tags let the app notice a stored safe that was edited by hand,
+ * e.g. attemptsMade lowered or state flipped back in devtools. The HMAC key
+ * is derived from the safe's id, so a tag proves only that the state was
+ * written by this code: it stops casual edits, not someone who reads it.
+ */
+
+/** JSON with sorted keys, so the tag doesn't depend on property order. */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (typeof value === 'object' && value !== null) {
+    const fields = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, field]) => `${JSON.stringify(key)}:${canonical(field)}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+async function integrityKey(id: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(`safe-game:integrity:${id}`),
+  );
+  return crypto.subtle.importKey(
+    'raw',
+    material,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify'],
+  );
+}
+
+/** The runtime and the rules; language and remembered inputs are free. */
+function signedData(snapshot: SafeSnapshot): Uint8Array<ArrayBuffer> {
+  const { settings } = snapshot;
+  return new TextEncoder().encode(
+    canonical({
+      runtime: snapshot.runtime,
+      rules: {
+        survivalEnabled: settings.survivalEnabled,
+        survivalChance: settings.survivalChance,
+        damageLevel: settings.damageLevel,
+        autodestructMinutes: settings.autodestructMinutes,
+        deadManSwitch: settings.deadManSwitch,
+        unlockAt: settings.unlockAt,
+        pinAttemptsLimit: settings.pinAttemptsLimit,
+        lockoutAfter: settings.lockoutAfter,
+        tamperPolicy: settings.tamperPolicy,
+        attemptsScope: settings.attemptsScope,
+      },
+    }),
+  );
+}
+
+export async function signSnapshot(snapshot: SafeSnapshot): Promise<string> {
+  const key = await integrityKey(snapshot.id);
+  const tag = await crypto.subtle.sign('HMAC', key, signedData(snapshot));
+  return toBase64(new Uint8Array(tag));
+}
+
+/**
+ * Whether a safe can be trusted as stored: it must carry a matching tag.
+ * Safes from before tags existed are told apart by their schema version
+ * as they are migrated (see persistence.ts), not by anything stored in
+ * the safe, which an edit could fake.
+ */
+export async function isIntact(snapshot: SafeSnapshot): Promise<boolean> {
+  const { integrity } = snapshot;
+  if (integrity === undefined) return false;
+  let tag: Uint8Array<ArrayBuffer>;
+  try {
+    tag = fromBase64(integrity);
+  } catch {
+    return false;
+  }
+  const key = await integrityKey(snapshot.id);
+  return crypto.subtle.verify('HMAC', key, tag, signedData(snapshot));
+}
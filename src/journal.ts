@@ -0,0 +1,153 @@
+import { survivedBy, type SafeEvent } from './safeMachine';
+import type {
+  ExplosionCause,
+  JournalEntry,
+  SafeSettings,
+  SafeSnapshot,
+} from './types';
+
+const JOURNAL_LIMIT = 100;
+
+function explosionCause(
+  root: SafeEvent,
+  before: SafeSnapshot,
+  now: number,
+): ExplosionCause {
+  switch (root.type) {
+    case 'tick':
+      return 'timer';
+    case 'wrongPin':
+      return 'attempts';
+    case 'tamper':
+      return 'tamper';
+    case 'sync': {
+      // Hosted safes report only the outcome; the client says what it
+      // asked for, and anything else was the server's alarm.
+      if (root.trigger === 'wrongPin') return 'attempts';
+      if (root.trigger === 'explode') return 'manual';
+      const destructAt = before.runtime.destructAt;
+      return destructAt !== undefined && now >= destructAt ? 'timer' : 'manual';
+    }
+    default:
+      return 'manual';
+  }
+}
+
+/**
+ * Appends an entry, merging runs of wrong attempts into one and dropping
+ * the oldest entries past JOURNAL_LIMIT.
+ */
+function append(journal: JournalEntry[], entry: JournalEntry): JournalEntry[] {
+  const last = journal[journal.length - 1];
+  if (entry.kind === 'wrongPin' && last?.kind === 'wrongPin') {
+    const merged: JournalEntry = {
+      ...entry,
+      count: last.count + entry.count,
+    };
+    return [...journal.slice(0, -1), merged];
+  }
+  return [...journal, entry].slice(-JOURNAL_LIMIT);
+}
+
+/**
+ * Derives journal entries from one step of dispatch: the state before and
+ * after `event`, which `root` (the event the player or timer raised)
+ * ultimately caused. Entries are derived from runtime changes so hosted
+ * safes, which only receive `sync` events, are journaled the same way.
+ */
+export function recordEvent(
+  before: SafeSnapshot,
+  after: SafeSnapshot,
+  event: SafeEvent,
+  root: SafeEvent,
+  now: number,
+): SafeSnapshot {
+  const from = before.runtime;
+  const to = after.runtime;
+  let journal = after.journal;
+
+  if (event.type === 'tamper') {
+    journal = append(journal, { at: now, kind: 'tampered', state: to.state });
+  }
+  if (from.state === 'open' && to.state === 'closed') {
+    journal = append(journal, { at: now, kind: 'close', state: to.state });
+  }
+  // A duress wipe must read like any other opening, so it isn't told apart.
+  if (
+    from.state === 'closed' &&
+    to.state === 'closed' &&
+    to.checkedInAt !== from.checkedInAt
+  ) {
+    journal = append(journal, { at: now, kind: 'checkIn', state: to.state });
+  }
+  if (from.state === 'closed' && to.state === 'open') {
+    journal = append(journal, { at: now, kind: 'open', state: to.state });
+  }
+  const wrongAttempts =
+    root.type === 'sync'
+      ? (root.trigger === 'wrongPin' ||
+          (root.trigger === 'checkIn' &&
+            to.attemptsMade > from.attemptsMade)) &&
+        from.state === 'closed'
+        ? 1
+        : 0
+      : to.state === 'closed' && from.state === 'closed'
+        ? to.attemptsMade - from.attemptsMade
+        : 0;
+  if (wrongAttempts > 0) {
+    journal = append(journal, {
+      at: now,
+      kind: 'wrongPin',
+      count: wrongAttempts,
+      state: to.state,
+    });
+  }
+  if (from.state !== 'destroyed' && to.state === 'destroyed') {
+    journal = append(journal, {
+      at: now,
+      kind: 'destroyed',
+      cause: explosionCause(root, before, now),
+      state: to.state,
+    });
+  }
+  if (survivedBy(event, from, to)) {
+    journal = append(journal, {
+      at: now,
+      kind: 'survived',
+      cause: explosionCause(root, before, now),
+      state: to.state,
+    });
+  }
+  return journal === after.journal ? after : { ...after, journal };
+}
+
+function rulesChanged(before: SafeSettings, after: SafeSettings): boolean {
+  return (
+    before.survivalEnabled !== after.survivalEnabled ||
+    before.survivalChance !== after.survivalChance ||
+    before.damageLevel !== after.damageLevel ||
+    before.autodestructMinutes !== after.autodestructMinutes ||
+    before.deadManSwitch !== after.deadManSwitch ||
+    before.unlockAt !== after.unlockAt ||
+    before.pinAttemptsLimit !== after.pinAttemptsLimit ||
+    before.lockoutAfter !== after.lockoutAfter ||
+    before.tamperPolicy !== after.tamperPolicy
+  );
+}
+
+/** Journals a settings change; language switches are not recorded. */
+export function recordSettings(
+  before: SafeSnapshot,
+  after: SafeSnapshot,
+  now: number,
+): SafeSnapshot {
+  if (!rulesChanged(before.settings, after.settings)) return after;
+  return {
+    ...after,
+    journal: append(after.journal, {
+      at: now,
+      kind: 'settings',
+      state: after.runtime.state,
+    }),
+  };
+}
@@ -0,0 +1,384 @@
+import type { LockType } from './types';
+import { t } from './i18n';
+
+/**
+ * Entry widgets for the lock types. Every lock boils what the player
+ * entered down to a secret string, which is hashed and sealed exactly like
+ * a PIN (see pin.ts and vault.ts), so the reducer's attempt counting and
+ * limits apply to all of them alike.
+ */
+export interface LockEntry {
+  element: HTMLElement;
+  value(): string; // '' until something was entered
+  clear(): void;
+  focus(): void;
+  setDisabled(disabled: boolean): void;
+}
+
+type LockTexts = {
+  name: Parameters<typeof t>[0];
+  set: Parameters<typeof t>[0];
+  confirm: Parameters<typeof t>[0];
+  enter: Parameters<typeof t>[0];
+  tooShort: Parameters<typeof t>[0];
+  mismatch: Parameters<typeof t>[0];
+  wrong: Parameters<typeof t>[0];
+};
+
+export const LOCK_TEXTS: Record<LockType, LockTexts> = {
+  pin: {
+    name: 'lockPin',
+    set: 'setPin',
+    confirm: 'confirmPin',
+    enter: 'enterPin',
+    tooShort: 'pinTooShort',
+    mismatch: 'pinMismatch',
+    wrong: 'wrongPin',
+  },
+  passphrase: {
+    name: 'lockPassphrase',
+    set: 'setPassphrase',
+    confirm: 'confirmPassphrase',
+    enter: 'enterPassphrase',
+    tooShort: 'passphraseTooShort',
+    mismatch: 'secretMismatch',
+    wrong: 'wrongPassphrase',
+  },
+  pattern: {
+    name: 'lockPattern',
+    set: 'setPattern',
+    confirm: 'confirmPattern',
+    enter: 'enterPattern',
+    tooShort: 'patternTooShort',
+    mismatch: 'secretMismatch',
+    wrong: 'wrongPattern',
+  },
+  dial: {
+    name: 'lockDial',
+    set: 'setCombination',
+    confirm: 'confirmCombination',
+    enter: 'enterCombination',
+    tooShort: 'combinationTooShort',
+    mismatch: 'secretMismatch',
+    wrong: 'wrongCombination',
+  },
+};
+
+const MIN_PASSPHRASE_LENGTH = 4;
+const MIN_PATTERN_DOTS = 4;
+const MIN_DIAL_NUMBERS = 3;
+const DIAL_NUMBERS = 40;
+const DIAL_STEP_DEGREES = 360 / DIAL_NUMBERS;
+
+/** Whether `secret` is good enough to close a safe with. */
+export function isStrongEnough(type: LockType, secret: string): boolean {
+  switch (type) {
+    case 'pin':
+      return secret !== '';
+    case 'passphrase':
+      return [...secret].length >= MIN_PASSPHRASE_LENGTH;
+    case 'pattern':
+      return secret !== '' && secret.split('-').length >= MIN_PATTERN_DOTS;
+    case 'dial':
+      return secret !== '' && secret.split('-').length >= MIN_DIAL_NUMBERS;
+  }
+}
+
+function textEntry(
+  numeric: boolean,
+  label: string,
+  onSubmit: () => void,
+): LockEntry {
+  const input = document.createElement('input');
+  input.type = 'password';
+  input.className = 'pin-input';
+  input.setAttribute('aria-label', label);
+  if (numeric) {
+    input.inputMode = 'numeric';
+    input.pattern = '\\d*';
+    input.addEventListener('input', () => {
+      input.value = input.value.replace(/\D/g, '');
+    });
+  } else {
+    input.autocomplete = 'off';
+  }
+  input.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter') onSubmit();
+  });
+  return {
+    element: input,
+    value: () => input.value,
+    clear: () => {
+      input.value = '';
+    },
+    focus: () => input.focus(),
+    setDisabled: (disabled) => {
+      input.disabled = disabled;
+    },
+  };
+}
+
+/**
+ * A 3×3 grid swiped with one pointer stroke. Dots are buttons, so keyboard
+ * players can press them one by one instead. The secret is the visited
+ * dots' indices, e.g. "0-4-8-5".
+ */
+function patternEntry(label: string, onSubmit: () => void): LockEntry {
+  const grid = document.createElement('div');
+  grid.className = 'lock-pattern';
+  grid.setAttribute('role', 'group');
+  grid.setAttribute('aria-label', label);
+  const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  svg.classList.add('lock-pattern-lines');
+  const line = document.createElementNS(
+    'http://www.w3.org/2000/svg',
+    'polyline',
+  );
+  svg.appendChild(line);
+  grid.appendChild(svg);
+
+  const dots: HTMLButtonElement[] = [];
+  let path: number[] = [];
+  let drawing = false;
+
+  function redraw(): void {
+    dots.forEach((dot, index) => {
+      dot.classList.toggle('lock-pattern-dot--on', path.includes(index));
+    });
+    const points = path.map((index) => {
+      const dot = dots[index];
+      const x = dot.offsetLeft + dot.offsetWidth / 2;
+      const y = dot.offsetTop + dot.offsetHeight / 2;
+      return `${x},${y}`;
+    });
+    line.setAttribute('points', points.join(' '));
+  }
+
+  function visit(index: number): void {
+    if (path.includes(index)) return;
+    path.push(index);
+    redraw();
+  }
+
+  for (let index = 0; index < 9; index += 1) {
+    const dot = document.createElement('button');
+    dot.type = 'button';
+    dot.className = 'lock-pattern-dot';
+    dot.dataset.index = String(index);
+    dot.setAttribute('aria-label', String(index + 1));
+    dot.addEventListener('click', (event) => {
+      // Pointer strokes are handled below; detail is 0 for keyboard clicks.
+      if (event.detail === 0) visit(index);
+    });
+    dots.push(dot);
+    grid.appendChild(dot);
+  }
+
+  function dotAt(event: PointerEvent): number | undefined {
+    const target = document.elementFromPoint(event.clientX, event.clientY);
+    const dot = target?.closest<HTMLElement>('.lock-pattern-dot');
+    return dot && grid.contains(dot) ? Number(dot.dataset.index) : undefined;
+  }
+
+  grid.addEventListener('pointerdown', (event) => {
+    if (dots[0].disabled) return;
+    event.preventDefault();
+    grid.setPointerCapture(event.pointerId);
+    drawing = true;
+    path = [];
+    const index = dotAt(event);
+    if (index === undefined) redraw();
+    else visit(index);
+  });
+  grid.addEventListener('pointermove', (event) => {
+    if (!drawing) return;
+    const index = dotAt(event);
+    if (index !== undefined) visit(index);
+  });
+  grid.addEventListener('pointerup', () => {
+    if (!drawing) return;
+    drawing = false;
+    if (path.length > 0) onSubmit();
+  });
+  grid.addEventListener('pointercancel', () => {
+    drawing = false;
+  });
+
+  return {
+    element: grid,
+    value: () => path.join('-'),
+    clear: () => {
+      path = [];
+      redraw();
+    },
+    focus: () => dots[0].focus(),
+    setDisabled: (disabled) => {
+      dots.forEach((dot) => {
+        dot.disabled = disabled;
+      });
+    },
+  };
+}
+
+/**
+ * A combination dial numbered 0–39. Turning right moves it clockwise.
+ * Each reversal records the number the dial stopped at, and the number it
+ * rests on counts as the last one, so "right to 12, left to 30, right to
+ * 5" becomes "R12-L30-R5".
+ */
+function dialEntry(label: string, onSubmit: () => void): LockEntry {
+  const wrapper = document.createElement('div');
+  wrapper.className = 'lock-dial';
+  wrapper.setAttribute('role', 'group');
+  wrapper.setAttribute('aria-label', label);
+
+  const pointer = document.createElement('div');
+  pointer.className = 'lock-dial-pointer';
+  pointer.textContent = '▼';
+  const face = document.createElement('div');
+  face.className = 'lock-dial-face';
+  face.tabIndex = 0;
+  face.setAttribute('role', 'slider');
+  face.setAttribute('aria-label', label);
+  face.setAttribute('aria-valuemin', '0');
+  face.setAttribute('aria-valuemax', String(DIAL_NUMBERS - 1));
+  for (let number = 0; number < DIAL_NUMBERS; number += 5) {
+    const mark = document.createElement('span');
+    mark.className = 'lock-dial-number';
+    mark.style.transform = `rotate(${number * DIAL_STEP_DEGREES}deg)`;
+    mark.textContent = String(number);
+    face.appendChild(mark);
+  }
+  const readout = document.createElement('p');
+  readout.className = 'lock-dial-readout';
+  readout.setAttribute('aria-live', 'polite');
+
+  let steps = 0; // clockwise steps since the last clear
+  let direction: 'L' | 'R' | undefined;
+  let stops: string[] = [];
+
+  const current = () =>
+    (((-steps % DIAL_NUMBERS) + DIAL_NUMBERS) % DIAL_NUMBERS).toString();
+  const value = () =>
+    direction ? [...stops, `${direction}${current()}`].join('-') : '';
+
+  function update(): void {
+    face.style.transform = `rotate(${steps * DIAL_STEP_DEGREES}deg)`;
+    face.setAttribute('aria-valuenow', current());
+    readout.textContent = value().split('-').join(' · ') || current();
+  }
+
+  function turn(delta: number): void {
+    const turning = delta > 0 ? 'R' : 'L';
+    if (direction && direction !== turning) {
+      stops.push(`${direction}${current()}`);
+    }
+    direction = turning;
+    steps += delta;
+    update();
+  }
+
+  face.addEventListener('keydown', (event) => {
+    if (event.key === 'ArrowRight' || event.key === 'ArrowUp') turn(1);
+    else if (event.key === 'ArrowLeft' || event.key === 'ArrowDown') turn(-1);
+    else if (event.key === 'Enter') onSubmit();
+    else return;
+    event.preventDefault();
+  });
+
+  // Dragging around the centre turns the dial one number per step.
+  let lastAngle: number | undefined;
+  let pending = 0;
+  const angleOf = (event: PointerEvent) => {
+    const rect = face.getBoundingClientRect();
+    const x = event.clientX - (rect.left + rect.width / 2);
+    const y = event.clientY - (rect.top + rect.height / 2);
+    return (Math.atan2(y, x) * 180) / Math.PI;
+  };
+  face.addEventListener('pointerdown', (event) => {
+    if (wrapper.classList.contains('lock-dial--disabled')) return;
+    face.setPointerCapture(event.pointerId);
+    face.classList.add('lock-dial-face--dragging');
+    lastAngle = angleOf(event);
+    pending = 0;
+  });
+  face.addEventListener('pointermove', (event) => {
+    if (lastAngle === undefined) return;
+    const angle = angleOf(event);
+    pending += ((angle - lastAngle + 540) % 360) - 180;
+    lastAngle = angle;
+    while (Math.abs(pending) >= DIAL_STEP_DEGREES) {
+      const delta = Math.sign(pending);
+      turn(delta);
+      pending -= delta * DIAL_STEP_DEGREES;
+    }
+  });
+  const release = () => {
+    lastAngle = undefined;
+    face.classList.remove('lock-dial-face--dragging');
+  };
+  face.addEventListener('pointerup', release);
+  face.addEventListener('pointercancel', release);
+
+  const controls = document.createElement('div');
+  controls.className = 'lock-dial-controls';
+  const buttons: HTMLButtonElement[] = [];
+  const addButton = (text: string, aria: string, action: () => void) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'close-btn';
+    button.textContent = text;
+    button.setAttribute('aria-label', aria);
+    button.title = aria;
+    button.addEventListener('click', action);
+    controls.appendChild(button);
+    buttons.push(button);
+  };
+  addButton('⟲', t('turnLeft'), () => turn(-1));
+  addButton('⟳', t('turnRight'), () => turn(1));
+  addButton('✕', t('clearEntry'), () => clear());
+
+  function clear(): void {
+    steps = 0;
+    direction = undefined;
+    stops = [];
+    update();
+  }
+
+  wrapper.appendChild(pointer);
+  wrapper.appendChild(face);
+  wrapper.appendChild(readout);
+  wrapper.appendChild(controls);
+  update();
+
+  return {
+    element: wrapper,
+    value,
+    clear,
+    focus: () => face.focus(),
+    setDisabled: (disabled) => {
+      wrapper.classList.toggle('lock-dial--disabled', disabled);
+      face.tabIndex = disabled ? -1 : 0;
+      buttons.forEach((button) => {
+        button.disabled = disabled;
+      });
+    },
+  };
+}
+
+export function createLockEntry(
+  type: LockType,
+  label: string,
+  onSubmit: () => void,
+): LockEntry {
+  switch (type) {
+    case 'pin':
+      return textEntry(true, label, onSubmit);
+    case 'passphrase':
+      return textEntry(false, label, onSubmit);
+    case 'pattern':
+      return patternEntry(label, onSubmit);
+    case 'dial':
+      return dialEntry(label, onSubmit);
+  }
+}
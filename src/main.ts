@@ -1,97 +1,421 @@
-import { loadSnapshot, saveSnapshot } from './persistence';
-import { reduce, spawnSafe, type SafeEvent } from './safeMachine';
-import type { Lang, SafeSnapshot } from './types';
-import { hashPin } from './pin';
-import { t, setLang } from './i18n';
+import {
+  exportSnapshot,
+  importSnapshot,
+  loadSafes,
+  loadStats,
+  quarantineSafe,
+  saveSafes,
+  updateStats,
+  watchSafes,
+  whenSaved,
+} from './persistence';
+import { StorageFullError } from './storage';
+import {
+  isLockedOut,
+  isTimeLocked,
+  LOCK_TYPES,
+  reduce,
+  spawnSafe,
+  type SafeEvent,
+} from './safeMachine';
+import type {
+  Attachment,
+  Compartment,
+  ImageFormat,
+  JournalEntry,
+  Lang,
+  LockType,
+  SafeCollection,
+  SafeContent,
+  SafeSettings,
+  SafeSnapshot,
+  SharedSeal,
+  TamperPolicy,
+} from './types';
+import { hashPin, PIN_KDF_ITERATIONS, verifyPin } from './pin';
+import { readAttachment } from './attachments';
+import { applyDamage } from './damage';
+import { ATTEMPT_BUCKETS, countCreated, tally, type Stats } from './stats';
+import {
+  effectsOf,
+  playEffects,
+  playTick,
+  primeSound,
+  TICKING_SHARE,
+  type Effect,
+} from './effects';
+import {
+  applyAction,
+  renderMarkdown,
+  toggleTask,
+  type MarkdownAction,
+} from './markdown';
+import {
+  DEFAULT_IMAGE_MAX_SIZE,
+  DEFAULT_IMAGE_QUALITY,
+  imageOptions,
+  isProcessedImage,
+  MAX_IMAGE_SIZE,
+  MIN_IMAGE_SIZE,
+  processImage,
+  type ProcessedImage,
+} from './images';
+import {
+  resealDecoy,
+  sealCompartments,
+  sealContent,
+  sealShared,
+  unsealCompartments,
+  unsealContent,
+  unsealShare,
+  unsealShared,
+} from './vault';
+import { t, setLang, getLang } from './i18n';
+import { recordEvent, recordSettings } from './journal';
+import { mergeCollections, stamp } from './sync';
+import { isIntact, signSnapshot } from './integrity';
+import { createLockEntry, isStrongEnough, LOCK_TEXTS } from './locks';
+import {
+  createShareLink,
+  isShareFragment,
+  readShareLink,
+  ShareLinkError,
+} from './share';
+import {
+  attemptHostedSafe,
+  checkInHostedSafe,
+  closeHostedSafe,
+  createHostedSafe,
+  explodeHostedSafe,
+  fetchHostedSafe,
+  hostedRules,
+  HostedSafeError,
+  HOSTED_PIN_KDF_ITERATIONS,
+  type HostedResponse,
+} from './hosted';
+
+const loaded = await loadSafes();
+let safes: SafeSnapshot[] = loaded.collection?.safes ?? [];
+let activeId: string | undefined = loaded.collection?.activeId;
+let deleted: string[] = loaded.collection?.deleted ?? [];
+if (safes.length === 0) {
+  const first = await signed(spawnSafe());
+  safes = [first];
+  activeId = first.id;
+  recordStats(countCreated);
+}
+setLang(findSafe(activeId)?.settings.language ?? safes[0].settings.language);
+persist();
+
+/** Statistics are a side matter; failing to store them costs nothing else. */
+function recordStats(change: (stats: Stats) => Stats): void {
+  updateStats(change).catch(() => undefined);
+}
+
+function findSafe(id: string | undefined): SafeSnapshot | undefined {
+  return safes.find((safe) => safe.id === id);
+}
+
+/**
+ * Folds in whatever other tabs have saved, so this tab acts on (and
+ * later saves) the merged state rather than its own stale copy.
+ */
+function absorbStored(stored: SafeCollection): void {
+  const shownId = activeId;
+  const shown = findSafe(activeId);
+  const merged = mergeCollections({ activeId, safes, deleted }, stored);
+  const changed =
+    merged.safes.length !== safes.length ||
+    merged.safes.some((safe, index) => safe !== safes[index]);
+  // A safe made from both copies carries a tag for neither.
+  const combined = merged.safes.filter(
+    (safe) => !safes.includes(safe) && !stored.safes.includes(safe),
+  );
+  safes = merged.safes;
+  activeId = merged.activeId;
+  deleted = merged.deleted ?? [];
+  for (const { id } of combined) void sign(id);
+  if (!changed) return;
+  scheduleTimers();
+  // Redrawing an untouched safe would cost the player their caret.
+  const active = findSafe(activeId);
+  if (!active || activeId !== shownId || active !== shown) {
+    if (active) setLang(active.settings.language);
+    render();
+  }
+}
+
+/** Set while saving fails, so the player is told once, not on every save. */
+let saveFailing = false;
+
+function persist(): void {
+  saveSafes({ activeId, safes, deleted }).then(
+    () => {
+      saveFailing = false;
+    },
+    (error: unknown) => {
+      if (saveFailing) return;
+      saveFailing = true;
+      if (error instanceof StorageFullError) {
+        openNotice(t('storageFull'), t('storageFullDescription'));
+      } else {
+        openNotice(t('storageFailed'), t('storageFailedDescription'));
+      }
+    },
+  );
+}
+
+/** Saves a change made directly to `snapshot` rather than via dispatch. */
+function touch(snapshot: SafeSnapshot): void {
+  const draft = decoyDrafts.get(snapshot.id);
+  if (draft && (hasContent(draft) || draft.format !== undefined)) {
+    snapshot.decoy = draft;
+    decoyDrafts.delete(snapshot.id);
+  }
+  snapshot.updatedAt = Date.now();
+  persist();
+}
 
-let snapshot: SafeSnapshot = loadSnapshot() ?? spawnSafe();
-setLang(snapshot.settings.language);
-saveSnapshot(snapshot);
+/** Tags a safe before it joins the others, so it is never saved unsigned. */
+async function signed(snapshot: SafeSnapshot): Promise<SafeSnapshot> {
+  if (!snapshot.hostedId) snapshot.integrity = await signSnapshot(snapshot);
+  return snapshot;
+}
+
+/**
+ * Stores a fresh integrity tag for a safe's runtime and rules, then saves.
+ * Hosted safes are left out, as the Worker holds their real state. The tag
+ * is dropped if the safe changed again while it was being computed; that
+ * change signs it anew.
+ */
+async function sign(id: string): Promise<void> {
+  const snapshot = findSafe(id);
+  if (!snapshot || snapshot.hostedId) return;
+  const integrity = await signSnapshot(snapshot);
+  const current = findSafe(id);
+  if (
+    current?.runtime !== snapshot.runtime ||
+    current.settings !== snapshot.settings
+  ) {
+    return;
+  }
+  current.integrity = integrity;
+  touch(current);
+}
 
-function dispatch(event: SafeEvent): void {
+function dispatch(id: string, event: SafeEvent): void {
+  const index = safes.findIndex((safe) => safe.id === id);
+  if (index === -1) return;
+  const original = safes[index];
+  let snapshot = original;
+  const now = Date.now();
   const queue: SafeEvent[] = [event];
+  const effects: Effect[] = [];
   while (queue.length) {
     const e = queue.shift()!;
     const [next, emitted] = reduce(snapshot, e);
-    snapshot = next;
+    effects.push(...effectsOf(e, snapshot.runtime, next.runtime));
+    snapshot =
+      e.type === 'configure'
+        ? recordSettings(snapshot, next, now)
+        : recordEvent(snapshot, next, e, event, now);
     queue.push(...emitted);
   }
-  setLang(snapshot.settings.language);
-  saveSnapshot(snapshot);
-  scheduleTimer();
+  if (snapshot !== original) {
+    safes[index] = stamp(original, snapshot, now);
+    recordStats((stats) => tally(stats, original, snapshot));
+  }
+  if (activeId === id) {
+    setLang(snapshot.settings.language);
+  }
+  // A new runtime or rules are saved with their tag, so a reload never
+  // finds them unsigned.
+  if (
+    !snapshot.hostedId &&
+    (snapshot.runtime !== original.runtime ||
+      snapshot.settings !== original.settings)
+  ) {
+    void sign(id);
+  } else {
+    persist();
+  }
+  scheduleTimers();
   render();
+  if (activeId === id) playEffects(effects, snapshot.settings);
 }
 
-let timerId: number | undefined;
-let countdownId: number | undefined;
+function tick(id: string): void {
+  if (findSafe(id)?.hostedId) {
+    // Hosted safes explode on the Worker's clock; just catch up with it.
+    syncHosted(id, fetchHostedSafe, true);
+  } else {
+    dispatch(id, { type: 'tick', now: Date.now() });
+  }
+}
+
+function tickAll(): void {
+  for (const { id } of [...safes]) {
+    tick(id);
+  }
+}
+
+async function requestHosted(
+  request: () => Promise<HostedResponse>,
+  quiet = false,
+): Promise<HostedResponse | undefined> {
+  try {
+    return await request();
+  } catch (error) {
+    if (!(error instanceof HostedSafeError)) throw error;
+    if (!quiet) {
+      openNotice(t('hostedUnavailable'), t('hostedUnavailableDescription'));
+    }
+    return undefined;
+  }
+}
 
-function scheduleTimer(): void {
-  if (timerId !== undefined) {
-    clearTimeout(timerId);
-    timerId = undefined;
+async function syncHosted(
+  id: string,
+  request: (hostedId: string) => Promise<HostedResponse>,
+  quiet = false,
+  trigger?: 'explode' | 'checkIn',
+): Promise<HostedResponse | undefined> {
+  const hostedId = findSafe(id)?.hostedId;
+  if (!hostedId) return undefined;
+  const response = await requestHosted(() => request(hostedId), quiet);
+  if (response) {
+    dispatch(id, { type: 'sync', runtime: response.runtime, trigger });
   }
+  return response;
+}
+
+const timers = new Map<string, number>();
+let countdownId: number | undefined;
+// setTimeout fires at once for longer delays; far-off ticks just re-arm.
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+function scheduleTimers(): void {
+  timers.forEach((timerId) => clearTimeout(timerId));
+  timers.clear();
   if (countdownId !== undefined) {
     clearInterval(countdownId);
     countdownId = undefined;
   }
-  if (snapshot.runtime.state === 'closed') {
-    const destructAt = snapshot.runtime.destructAt;
-    if (destructAt !== undefined) {
-      const delay = destructAt - Date.now();
-      if (delay <= 0) {
-        dispatch({ type: 'tick', now: Date.now() });
-      } else {
-        timerId = window.setTimeout(() => {
-          dispatch({ type: 'tick', now: Date.now() });
-        }, delay);
-        countdownId = window.setInterval(() => {
-          updateCountdownElements();
-        }, 1000);
-        queueMicrotask(() => {
-          updateCountdownElements();
-        });
-      }
-    }
+  for (const safe of safes) {
+    if (safe.runtime.state !== 'closed') continue;
+    const { destructAt, lockedUntil, unlockAt } = safe.runtime;
+    // Unlike the others, unlockAt stays in place once it has passed.
+    const opening = isTimeLocked(safe.runtime, Date.now())
+      ? unlockAt
+      : undefined;
+    const deadlines = [destructAt, lockedUntil, opening].filter(
+      (deadline) => deadline !== undefined,
+    );
+    if (deadlines.length === 0) continue;
+    const id = safe.id;
+    const delay = Math.min(
+      MAX_TIMER_DELAY,
+      Math.max(0, Math.min(...deadlines) - Date.now()),
+    );
+    timers.set(
+      id,
+      window.setTimeout(() => {
+        tick(id);
+      }, delay),
+    );
   }
+  if (timers.size > 0) {
+    countdownId = window.setInterval(() => {
+      updateCountdownElements();
+    }, 1000);
+    queueMicrotask(() => {
+      updateCountdownElements();
+    });
+  }
+}
+
+/** m:ss, or with `long` (time capsules can be years away) [Nd ]h:mm:ss. */
+function formatRemaining(ms: number, long = false): string {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const s = (seconds % 60).toString().padStart(2, '0');
+  if (!long || minutes < 60) return `${minutes}:${s}`;
+  const days = Math.floor(minutes / (24 * 60));
+  const h = Math.floor((minutes / 60) % 24);
+  const m = (minutes % 60).toString().padStart(2, '0');
+  return `${days > 0 ? `${days}d ` : ''}${h}:${m}:${s}`;
+}
+
+/** The share of a closed safe's autodestruct interval still left. */
+function remainingShare(snapshot: SafeSnapshot): number | undefined {
+  const { destructAt, checkedInAt, closedAt } = snapshot.runtime;
+  // A check-in restarts the interval the share is measured against.
+  const start = checkedInAt ?? closedAt;
+  if (destructAt === undefined || start === undefined) return undefined;
+  const total = destructAt - start;
+  if (total <= 0) return undefined;
+  return Math.max(0, destructAt - Date.now()) / total;
 }
 
 function updateCountdownElement(element: HTMLElement): void {
-  if (snapshot.runtime.state !== 'closed') return;
+  const snapshot = findSafe(element.dataset.countdown);
+  if (!snapshot || snapshot.runtime.state !== 'closed') return;
   const destructAt = snapshot.runtime.destructAt;
   if (destructAt === undefined) return;
   const msRemaining = destructAt - Date.now();
   const remaining = Math.max(0, msRemaining);
-  const seconds = Math.floor(remaining / 1000);
-  const minutes = Math.floor(seconds / 60);
-  const s = (seconds % 60).toString().padStart(2, '0');
-  element.textContent = `${t('autodestructIn')}: ${minutes}:${s}`;
+  element.textContent = `${t('autodestructIn')}: ${formatRemaining(remaining)}`;
 
-  const closedAt = snapshot.runtime.closedAt;
-  if (closedAt === undefined) {
-    element.classList.remove('countdown-warning');
-    return;
-  }
-  const total = destructAt - closedAt;
-  if (total <= 0) {
+  const ratio = remainingShare(snapshot);
+  if (ratio === undefined) {
     element.classList.remove('countdown-warning');
     return;
   }
-  const ratio = remaining / total;
-  if (ratio <= 0.1) {
+  if (ratio <= (snapshot.settings.countdownWarning ?? 10) / 100) {
     element.classList.add('countdown-warning');
   } else {
     element.classList.remove('countdown-warning');
   }
 }
 
+function updateLockoutElement(element: HTMLElement): void {
+  const lockedUntil = findSafe(element.dataset.lockout)?.runtime.lockedUntil;
+  if (lockedUntil === undefined) return;
+  const remaining = Math.max(0, lockedUntil - Date.now());
+  element.textContent = `${t('lockedFor')} ${formatRemaining(remaining)}`;
+}
+
+function updateUnlockElement(element: HTMLElement): void {
+  const unlockAt = findSafe(element.dataset.unlock)?.runtime.unlockAt;
+  if (unlockAt === undefined) return;
+  const remaining = formatRemaining(Math.max(0, unlockAt - Date.now()), true);
+  element.textContent = `${t('unlocksIn')}: ${remaining}`;
+}
+
 function updateCountdownElements(): void {
-  const timers = document.querySelectorAll<HTMLElement>('[data-countdown]');
-  timers.forEach((timer) => updateCountdownElement(timer));
+  const elements = document.querySelectorAll<HTMLElement>('[data-countdown]');
+  elements.forEach((element) => updateCountdownElement(element));
+  document
+    .querySelectorAll<HTMLElement>('[data-lockout]')
+    .forEach((element) => updateLockoutElement(element));
+  document
+    .querySelectorAll<HTMLElement>('[data-unlock]')
+    .forEach((element) => updateUnlockElement(element));
+  // The clock ticks audibly for the safe on screen as it runs out.
+  const active = findSafe(activeId);
+  if (active?.runtime.state !== 'closed') return;
+  const share = remainingShare(active);
+  if (share !== undefined && share > 0 && share <= TICKING_SHARE) {
+    playTick(active.settings);
+  }
 }
 
 const app = document.querySelector<HTMLDivElement>('#app');
 
-  async function promptPin(message: string): Promise<string | null> {
+async function promptSecret(
+  lockType: LockType,
+  message: string,
+): Promise<string | null> {
   return new Promise((resolve) => {
     const overlay = document.createElement('div');
     overlay.className = 'pin-overlay';
@@ -99,25 +423,67 @@ const app = document.querySelector<HTMLDivElement>('#app');
     dialog.className = 'pin-dialog';
     const label = document.createElement('p');
     label.textContent = message;
-    const input = document.createElement('input');
-    input.type = 'password';
-    input.inputMode = 'numeric';
-    input.pattern = '\\d*';
-    input.addEventListener('input', () => {
-      input.value = input.value.replace(/\D/g, '');
+    const okBtn = document.createElement('button');
+    okBtn.className = 'close-btn';
+    okBtn.textContent = t('ok');
+    const cancelBtn = document.createElement('button');
+    cancelBtn.className = 'close-btn';
+    cancelBtn.textContent = t('cancel');
+    // A pattern submits itself when the stroke ends; the dialog waits for OK.
+    const entry = createLockEntry(lockType, message, () => {
+      if (lockType !== 'pattern') okBtn.click();
+    });
+    okBtn.addEventListener('click', () => {
+      cleanup();
+      resolve(entry.value());
+    });
+    cancelBtn.addEventListener('click', () => {
+      cleanup();
+      resolve(null);
     });
-      const okBtn = document.createElement('button');
-      okBtn.className = 'close-btn';
-      okBtn.textContent = t('ok');
-      const cancelBtn = document.createElement('button');
-      cancelBtn.className = 'close-btn';
-      cancelBtn.textContent = t('cancel');
+    const buttons = document.createElement('div');
+    buttons.className = 'pin-actions';
+    buttons.appendChild(okBtn);
+    buttons.appendChild(cancelBtn);
+    dialog.appendChild(label);
+    dialog.appendChild(entry.element);
+    dialog.appendChild(buttons);
+    overlay.appendChild(dialog);
+    document.body.appendChild(overlay);
+    entry.focus();
+    function cleanup() {
+      document.body.removeChild(overlay);
+    }
+  });
+}
+
+async function promptText(
+  message: string,
+  initial: string,
+): Promise<string | null> {
+  return new Promise((resolve) => {
+    const overlay = document.createElement('div');
+    overlay.className = 'pin-overlay';
+    const dialog = document.createElement('div');
+    dialog.className = 'pin-dialog';
+    const label = document.createElement('p');
+    label.textContent = message;
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.maxLength = 60;
+    input.value = initial;
+    const okBtn = document.createElement('button');
+    okBtn.className = 'close-btn';
+    okBtn.textContent = t('ok');
+    const cancelBtn = document.createElement('button');
+    cancelBtn.className = 'close-btn';
+    cancelBtn.textContent = t('cancel');
     input.addEventListener('keydown', (e) => {
       if (e.key === 'Enter') okBtn.click();
     });
     okBtn.addEventListener('click', () => {
       cleanup();
-      resolve(input.value);
+      resolve(input.value.trim());
     });
     cancelBtn.addEventListener('click', () => {
       cleanup();
@@ -132,14 +498,26 @@ const app = document.querySelector<HTMLDivElement>('#app');
     dialog.appendChild(buttons);
     overlay.appendChild(dialog);
     document.body.appendChild(overlay);
-    input.focus();
+    input.select();
     function cleanup() {
       document.body.removeChild(overlay);
     }
   });
 }
 
-function openSettings(): void {
+/** Epoch ms as the local time a datetime-local input shows. */
+function toDateTimeInput(ms: number): string {
+  const offset = new Date(ms).getTimezoneOffset() * 60 * 1000;
+  return new Date(ms - offset).toISOString().slice(0, 16);
+}
+
+function fromDateTimeInput(value: string): number | undefined {
+  if (value === '') return undefined;
+  const ms = new Date(value).getTime();
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+function openSettings(snapshot: SafeSnapshot): void {
   const overlay = document.createElement('div');
   overlay.className = 'settings-overlay';
   const dialog = document.createElement('div');
@@ -190,6 +568,28 @@ function openSettings(): void {
   autoInput.setAttribute('aria-labelledby', autoTitleId);
   autoInputWrapper.appendChild(autoInput);
   autoRow.appendChild(autoInputWrapper);
+  const switchLabel = document.createElement('label');
+  switchLabel.className = 'settings-check';
+  const switchToggle = document.createElement('input');
+  switchToggle.type = 'checkbox';
+  switchToggle.checked = snapshot.settings.deadManSwitch === true;
+  const switchText = document.createTextNode(t('deadManSwitch'));
+  switchLabel.appendChild(switchToggle);
+  switchLabel.appendChild(switchText);
+  autoRow.appendChild(switchLabel);
+  const warningLabel = document.createElement('label');
+  warningLabel.className = 'settings-scope';
+  const warningText = document.createTextNode(t('countdownWarning'));
+  warningLabel.appendChild(warningText);
+  const warningInput = document.createElement('input');
+  warningInput.type = 'number';
+  warningInput.inputMode = 'numeric';
+  warningInput.pattern = '\\d*';
+  warningInput.min = '1';
+  warningInput.max = '100';
+  warningInput.value = String(snapshot.settings.countdownWarning ?? 10);
+  warningLabel.appendChild(warningInput);
+  autoRow.appendChild(warningLabel);
   const autoErr = document.createElement('div');
   autoErr.className = 'settings-error';
   autoRow.appendChild(autoErr);
@@ -204,18 +604,25 @@ function openSettings(): void {
   autoToggle.checked = autoEnabled;
   autoInput.value = String(initialAutoValue);
   autoInput.disabled = !autoEnabled;
+  switchToggle.disabled = !autoEnabled;
+  warningInput.disabled = !autoEnabled;
 
   let autoStored = autoInput.value;
+  let autoError: 'valueRangeError' | 'percentageRangeError' | undefined;
 
   autoToggle.addEventListener('change', () => {
+    switchToggle.disabled = !autoToggle.checked;
+    warningInput.disabled = !autoToggle.checked;
     if (autoToggle.checked) {
       autoInput.disabled = false;
       autoInput.value = autoStored;
+      autoError = undefined;
       autoErr.textContent = '';
       autoInput.focus();
     } else {
       autoStored = autoInput.value.trim() || autoStored;
       autoInput.disabled = true;
+      autoError = undefined;
       autoErr.textContent = '';
     }
   });
@@ -223,6 +630,7 @@ function openSettings(): void {
   autoInput.addEventListener('input', () => {
     autoStored = autoInput.value;
     if (!autoToggle.checked) {
+      autoError = undefined;
       autoErr.textContent = '';
       return;
     }
@@ -234,10 +642,59 @@ function openSettings(): void {
       val < 1 ||
       val > 999
     ) {
-      autoErr.textContent = t('valueRangeError');
+      autoError = 'valueRangeError';
     } else {
-      autoErr.textContent = '';
+      autoError = undefined;
     }
+    autoErr.textContent = autoError ? t(autoError) : '';
+  });
+
+  const unlockRow = document.createElement('div');
+  unlockRow.className = 'settings-row';
+  const unlockHeader = document.createElement('div');
+  unlockHeader.className = 'settings-row-header';
+  const unlockTitle = document.createElement('span');
+  const unlockTitleId = `unlock-${crypto.randomUUID()}`;
+  unlockTitle.id = unlockTitleId;
+  unlockTitle.className = 'settings-row-title';
+  const unlockToggle = document.createElement('input');
+  unlockToggle.type = 'checkbox';
+  unlockToggle.className = 'settings-toggle';
+  unlockToggle.setAttribute('aria-labelledby', unlockTitleId);
+  unlockHeader.appendChild(unlockTitle);
+  unlockHeader.appendChild(unlockToggle);
+  unlockRow.appendChild(unlockHeader);
+  const unlockInputWrapper = document.createElement('div');
+  unlockInputWrapper.className = 'settings-input-wrapper';
+  const unlockInput = document.createElement('input');
+  unlockInput.type = 'datetime-local';
+  unlockInput.setAttribute('aria-labelledby', unlockTitleId);
+  unlockInputWrapper.appendChild(unlockInput);
+  unlockRow.appendChild(unlockInputWrapper);
+  const unlockErr = document.createElement('div');
+  unlockErr.className = 'settings-error';
+  unlockRow.appendChild(unlockErr);
+  const unlockEnabled = snapshot.settings.unlockAt !== undefined;
+  const initialUnlockValue =
+    snapshot.settings.unlockAt ??
+    snapshot.settings.unlockAtRemembered ??
+    Date.now() + 24 * 60 * 60 * 1000;
+  unlockToggle.checked = unlockEnabled;
+  unlockInput.value = toDateTimeInput(initialUnlockValue);
+  unlockInput.disabled = !unlockEnabled;
+
+  unlockToggle.addEventListener('change', () => {
+    unlockInput.disabled = !unlockToggle.checked;
+    unlockError = undefined;
+    unlockErr.textContent = '';
+    if (unlockToggle.checked) unlockInput.focus();
+  });
+
+  let unlockError: 'unlockAtError' | 'unlockAfterDestructError' | undefined;
+
+  unlockInput.addEventListener('input', () => {
+    unlockError = undefined;
+    unlockErr.textContent = '';
   });
 
   const limitRow = document.createElement('div');
@@ -316,6 +773,183 @@ function openSettings(): void {
     }
   });
 
+  const lockoutRow = document.createElement('div');
+  lockoutRow.className = 'settings-row';
+  const lockoutHeader = document.createElement('div');
+  lockoutHeader.className = 'settings-row-header';
+  const lockoutTitle = document.createElement('span');
+  const lockoutTitleId = `lockout-${crypto.randomUUID()}`;
+  lockoutTitle.id = lockoutTitleId;
+  lockoutTitle.className = 'settings-row-title';
+  const lockoutToggle = document.createElement('input');
+  lockoutToggle.type = 'checkbox';
+  lockoutToggle.className = 'settings-toggle';
+  lockoutToggle.setAttribute('aria-labelledby', lockoutTitleId);
+  lockoutHeader.appendChild(lockoutTitle);
+  lockoutHeader.appendChild(lockoutToggle);
+  lockoutRow.appendChild(lockoutHeader);
+  const lockoutInputWrapper = document.createElement('div');
+  lockoutInputWrapper.className = 'settings-input-wrapper';
+  const lockoutInput = document.createElement('input');
+  lockoutInput.type = 'number';
+  lockoutInput.inputMode = 'numeric';
+  lockoutInput.pattern = '\\d*';
+  lockoutInput.min = '1';
+  lockoutInput.max = '999';
+  lockoutInput.setAttribute('aria-labelledby', lockoutTitleId);
+  lockoutInputWrapper.appendChild(lockoutInput);
+  lockoutRow.appendChild(lockoutInputWrapper);
+  const lockoutErr = document.createElement('div');
+  lockoutErr.className = 'settings-error';
+  lockoutRow.appendChild(lockoutErr);
+  const lockoutEnabled = snapshot.settings.lockoutAfter !== undefined;
+  const lockoutRememberedValue =
+    snapshot.settings.lockoutAfterRemembered ??
+    snapshot.settings.lockoutAfter ??
+    3;
+  const initialLockoutValue = lockoutEnabled
+    ? snapshot.settings.lockoutAfter ?? lockoutRememberedValue
+    : lockoutRememberedValue;
+  lockoutToggle.checked = lockoutEnabled;
+  lockoutInput.value = String(initialLockoutValue);
+  lockoutInput.disabled = !lockoutEnabled;
+
+  let lockoutStored = lockoutInput.value;
+
+  lockoutToggle.addEventListener('change', () => {
+    if (lockoutToggle.checked) {
+      lockoutInput.disabled = false;
+      lockoutInput.value = lockoutStored;
+      lockoutErr.textContent = '';
+      lockoutInput.focus();
+    } else {
+      lockoutStored = lockoutInput.value.trim() || lockoutStored;
+      lockoutInput.disabled = true;
+      lockoutErr.textContent = '';
+    }
+  });
+
+  lockoutInput.addEventListener('input', () => {
+    lockoutStored = lockoutInput.value;
+    if (!lockoutToggle.checked) {
+      lockoutErr.textContent = '';
+      return;
+    }
+    const raw = lockoutInput.value.trim();
+    const val = Number(raw);
+    if (
+      raw === '' ||
+      !Number.isInteger(val) ||
+      val < 1 ||
+      val > 999
+    ) {
+      lockoutErr.textContent = t('valueRangeError');
+    } else {
+      lockoutErr.textContent = '';
+    }
+  });
+
+  const keyholdersRow = document.createElement('div');
+  keyholdersRow.className = 'settings-row';
+  const keyholdersHeader = document.createElement('div');
+  keyholdersHeader.className = 'settings-row-header';
+  const keyholdersTitle = document.createElement('span');
+  const keyholdersTitleId = `keyholders-${crypto.randomUUID()}`;
+  keyholdersTitle.id = keyholdersTitleId;
+  keyholdersTitle.className = 'settings-row-title';
+  const keyholdersToggle = document.createElement('input');
+  keyholdersToggle.type = 'checkbox';
+  keyholdersToggle.className = 'settings-toggle';
+  keyholdersToggle.setAttribute('aria-labelledby', keyholdersTitleId);
+  keyholdersHeader.appendChild(keyholdersTitle);
+  keyholdersHeader.appendChild(keyholdersToggle);
+  keyholdersRow.appendChild(keyholdersHeader);
+  const keyholdersInputWrapper = document.createElement('div');
+  keyholdersInputWrapper.className = 'settings-input-wrapper';
+  const requiredInput = document.createElement('input');
+  const keyholdersInput = document.createElement('input');
+  for (const input of [requiredInput, keyholdersInput]) {
+    input.type = 'number';
+    input.inputMode = 'numeric';
+    input.pattern = '\\d*';
+    input.min = '1';
+    input.max = '9';
+  }
+  keyholdersInput.min = '2';
+  const keyholdersSuffix = document.createElement('span');
+  keyholdersSuffix.className = 'settings-suffix';
+  keyholdersInputWrapper.appendChild(requiredInput);
+  keyholdersInputWrapper.appendChild(keyholdersSuffix);
+  keyholdersInputWrapper.appendChild(keyholdersInput);
+  keyholdersRow.appendChild(keyholdersInputWrapper);
+  const scopeLabel = document.createElement('label');
+  scopeLabel.className = 'settings-scope';
+  const scopeText = document.createTextNode(t('attemptsScope'));
+  scopeLabel.appendChild(scopeText);
+  const scopeSelect = document.createElement('select');
+  const scopeOptions = (['global', 'keyholder'] as const).map(
+    (scope): ['global' | 'keyholder', HTMLOptionElement] => {
+      const opt = document.createElement('option');
+      opt.value = scope;
+      scopeSelect.appendChild(opt);
+      return [scope, opt];
+    },
+  );
+  scopeSelect.value = snapshot.settings.attemptsScope ?? 'global';
+  scopeLabel.appendChild(scopeSelect);
+  keyholdersRow.appendChild(scopeLabel);
+  const keyholdersErr = document.createElement('div');
+  keyholdersErr.className = 'settings-error';
+  keyholdersRow.appendChild(keyholdersErr);
+  const keyholdersEnabled = snapshot.settings.keyholders !== undefined;
+  keyholdersToggle.checked = keyholdersEnabled;
+  keyholdersInput.value = String(
+    snapshot.settings.keyholders ??
+      snapshot.settings.keyholdersRemembered ??
+      3,
+  );
+  requiredInput.value = String(snapshot.settings.keysRequired ?? 2);
+  keyholdersInput.disabled = !keyholdersEnabled;
+  requiredInput.disabled = !keyholdersEnabled;
+  scopeSelect.disabled = !keyholdersEnabled;
+
+  function keyholdersValues(): [number, number] | undefined {
+    const requiredRaw = requiredInput.value.trim();
+    const totalRaw = keyholdersInput.value.trim();
+    const required = Number(requiredRaw);
+    const total = Number(totalRaw);
+    if (
+      requiredRaw === '' ||
+      totalRaw === '' ||
+      !Number.isInteger(required) ||
+      !Number.isInteger(total) ||
+      total < 2 ||
+      total > 9 ||
+      required < 1 ||
+      required > total
+    ) {
+      return undefined;
+    }
+    return [required, total];
+  }
+
+  keyholdersToggle.addEventListener('change', () => {
+    keyholdersInput.disabled = !keyholdersToggle.checked;
+    requiredInput.disabled = !keyholdersToggle.checked;
+    scopeSelect.disabled = !keyholdersToggle.checked;
+    keyholdersErr.textContent = '';
+    if (keyholdersToggle.checked) requiredInput.focus();
+  });
+
+  for (const input of [requiredInput, keyholdersInput]) {
+    input.addEventListener('input', () => {
+      keyholdersErr.textContent =
+        keyholdersToggle.checked && !keyholdersValues()
+          ? t('keyholdersRangeError')
+          : '';
+    });
+  }
+
   const survivalRow = document.createElement('div');
   survivalRow.className = 'settings-row';
   const survivalHeader = document.createElement('div');
@@ -397,6 +1031,176 @@ function openSettings(): void {
     }
   });
 
+  const damageRow = document.createElement('div');
+  damageRow.className = 'settings-row';
+  const damageHeader = document.createElement('div');
+  damageHeader.className = 'settings-row-header';
+  const damageTitle = document.createElement('span');
+  const damageTitleId = `damage-${crypto.randomUUID()}`;
+  damageTitle.id = damageTitleId;
+  damageTitle.className = 'settings-row-title';
+  const damageToggle = document.createElement('input');
+  damageToggle.type = 'checkbox';
+  damageToggle.className = 'settings-toggle';
+  damageToggle.setAttribute('aria-labelledby', damageTitleId);
+  damageHeader.appendChild(damageTitle);
+  damageHeader.appendChild(damageToggle);
+  damageRow.appendChild(damageHeader);
+  const damageInputWrapper = document.createElement('div');
+  damageInputWrapper.className = 'settings-input-wrapper';
+  const damageInput = document.createElement('input');
+  damageInput.type = 'number';
+  damageInput.inputMode = 'numeric';
+  damageInput.pattern = '\\d*';
+  damageInput.min = '1';
+  damageInput.max = '100';
+  damageInput.step = '1';
+  damageInput.setAttribute('aria-labelledby', damageTitleId);
+  damageInputWrapper.appendChild(damageInput);
+  const damageSuffix = document.createElement('span');
+  damageSuffix.className = 'settings-suffix';
+  damageSuffix.textContent = '%';
+  damageInputWrapper.appendChild(damageSuffix);
+  damageRow.appendChild(damageInputWrapper);
+  const damageErr = document.createElement('div');
+  damageErr.className = 'settings-error';
+  damageRow.appendChild(damageErr);
+  const damageEnabled = snapshot.settings.damageLevel !== undefined;
+  damageToggle.checked = damageEnabled;
+  damageInput.value = String(
+    snapshot.settings.damageLevel ??
+      snapshot.settings.damageLevelRemembered ??
+      30,
+  );
+  damageInput.disabled = !damageEnabled;
+
+  damageToggle.addEventListener('change', () => {
+    damageInput.disabled = !damageToggle.checked;
+    damageErr.textContent = '';
+    if (damageToggle.checked) damageInput.focus();
+  });
+
+  const imageRow = document.createElement('div');
+  imageRow.className = 'settings-row';
+  const imageHeader = document.createElement('div');
+  imageHeader.className = 'settings-row-header';
+  const imageTitle = document.createElement('span');
+  const imageTitleId = `images-${crypto.randomUUID()}`;
+  imageTitle.id = imageTitleId;
+  imageTitle.className = 'settings-row-title';
+  imageHeader.appendChild(imageTitle);
+  imageRow.appendChild(imageHeader);
+  const imageInputWrapper = document.createElement('div');
+  imageInputWrapper.className = 'settings-input-wrapper';
+  const imageSizeInput = document.createElement('input');
+  imageSizeInput.type = 'number';
+  imageSizeInput.inputMode = 'numeric';
+  imageSizeInput.pattern = '\\d*';
+  imageSizeInput.min = String(MIN_IMAGE_SIZE);
+  imageSizeInput.max = String(MAX_IMAGE_SIZE);
+  imageSizeInput.step = '1';
+  imageSizeInput.setAttribute('aria-labelledby', imageTitleId);
+  imageSizeInput.value = String(
+    snapshot.settings.imageMaxSize ?? DEFAULT_IMAGE_MAX_SIZE,
+  );
+  imageInputWrapper.appendChild(imageSizeInput);
+  const imageSizeSuffix = document.createElement('span');
+  imageSizeSuffix.className = 'settings-suffix';
+  imageSizeSuffix.textContent = 'px';
+  imageInputWrapper.appendChild(imageSizeSuffix);
+  imageRow.appendChild(imageInputWrapper);
+  const formatLabel = document.createElement('label');
+  formatLabel.className = 'settings-scope';
+  const formatText = document.createTextNode(t('imageFormat'));
+  formatLabel.appendChild(formatText);
+  const formatSelect = document.createElement('select');
+  for (const [format, name] of [
+    ['webp', 'WebP'],
+    ['jpeg', 'JPEG'],
+  ] as const) {
+    const opt = document.createElement('option');
+    opt.value = format;
+    opt.textContent = name;
+    formatSelect.appendChild(opt);
+  }
+  formatSelect.value = snapshot.settings.imageFormat ?? 'webp';
+  formatLabel.appendChild(formatSelect);
+  imageRow.appendChild(formatLabel);
+  const qualityLabel = document.createElement('label');
+  qualityLabel.className = 'settings-scope';
+  const qualityText = document.createTextNode(t('imageQuality'));
+  qualityLabel.appendChild(qualityText);
+  const qualityInput = document.createElement('input');
+  qualityInput.type = 'number';
+  qualityInput.inputMode = 'numeric';
+  qualityInput.pattern = '\\d*';
+  qualityInput.min = '1';
+  qualityInput.max = '100';
+  qualityInput.value = String(
+    snapshot.settings.imageQuality ?? DEFAULT_IMAGE_QUALITY,
+  );
+  qualityLabel.appendChild(qualityInput);
+  imageRow.appendChild(qualityLabel);
+  const imageErr = document.createElement('div');
+  imageErr.className = 'settings-error';
+  imageRow.appendChild(imageErr);
+  let imageError: 'imageSizeError' | 'percentageRangeError' | undefined;
+
+  const effectsRow = document.createElement('div');
+  effectsRow.className = 'settings-row';
+  const effectsHeader = document.createElement('div');
+  effectsHeader.className = 'settings-row-header';
+  const effectsTitle = document.createElement('span');
+  effectsTitle.className = 'settings-row-title';
+  effectsHeader.appendChild(effectsTitle);
+  effectsRow.appendChild(effectsHeader);
+  const soundLabel = document.createElement('label');
+  soundLabel.className = 'settings-check';
+  const soundToggle = document.createElement('input');
+  soundToggle.type = 'checkbox';
+  soundToggle.checked = snapshot.settings.sound !== false;
+  const soundText = document.createTextNode(t('soundEffects'));
+  soundLabel.appendChild(soundToggle);
+  soundLabel.appendChild(soundText);
+  effectsRow.appendChild(soundLabel);
+  const motionLabel = document.createElement('label');
+  motionLabel.className = 'settings-check';
+  const motionToggle = document.createElement('input');
+  motionToggle.type = 'checkbox';
+  motionToggle.checked = snapshot.settings.motion !== false;
+  const motionText = document.createTextNode(t('animations'));
+  motionLabel.appendChild(motionToggle);
+  motionLabel.appendChild(motionText);
+  effectsRow.appendChild(motionLabel);
+
+  const lockLabel = document.createElement('label');
+  const lockText = document.createTextNode(t('lockType'));
+  lockLabel.appendChild(lockText);
+  const lockSelect = document.createElement('select');
+  const lockOptions = LOCK_TYPES.map((type): [LockType, HTMLOptionElement] => {
+    const opt = document.createElement('option');
+    opt.value = type;
+    lockSelect.appendChild(opt);
+    return [type, opt];
+  });
+  lockSelect.value = snapshot.settings.lockType ?? 'pin';
+  lockLabel.appendChild(lockSelect);
+
+  const tamperLabel = document.createElement('label');
+  const tamperText = document.createTextNode(t('tamperPolicy'));
+  tamperLabel.appendChild(tamperText);
+  const tamperSelect = document.createElement('select');
+  const tamperOptions: [TamperPolicy, HTMLOptionElement][] = (
+    ['refuse', 'wrongPin', 'explode'] as TamperPolicy[]
+  ).map((policy) => {
+    const opt = document.createElement('option');
+    opt.value = policy;
+    tamperSelect.appendChild(opt);
+    return [policy, opt];
+  });
+  tamperSelect.value = tamperPolicy(snapshot);
+  tamperLabel.appendChild(tamperSelect);
+
   const actions = document.createElement('div');
   actions.className = 'settings-actions';
   const cancelBtn = document.createElement('button');
@@ -409,9 +1213,20 @@ function openSettings(): void {
   actions.appendChild(saveBtn);
 
   form.appendChild(langLabel);
+  form.appendChild(lockLabel);
   form.appendChild(autoRow);
+  form.appendChild(unlockRow);
   form.appendChild(limitRow);
+  form.appendChild(lockoutRow);
   form.appendChild(survivalRow);
+  // The Worker checks a single PIN hash, so hosted safes have one keyholder.
+  if (!snapshot.hostedId) form.appendChild(keyholdersRow);
+  // The Worker opens safes without seeing their content to damage it.
+  if (!snapshot.hostedId) form.appendChild(damageRow);
+  form.appendChild(imageRow);
+  form.appendChild(effectsRow);
+  // Hosted safes live on the Worker, out of reach of local edits.
+  if (!snapshot.hostedId) form.appendChild(tamperLabel);
   form.appendChild(actions);
 
   dialog.appendChild(form);
@@ -429,27 +1244,75 @@ function openSettings(): void {
     langText.textContent = t('language');
     autoTitle.textContent = t('autodestructMinutes');
     autoToggle.setAttribute('aria-label', t('autodestructMinutes'));
+    switchText.textContent = t('deadManSwitch');
+    warningText.textContent = t('countdownWarning');
+    unlockTitle.textContent = t('unlockAt');
+    unlockToggle.setAttribute('aria-label', t('unlockAt'));
     limitTitle.textContent = t('pinAttemptsLimit');
     limitToggle.setAttribute('aria-label', t('pinAttemptsLimit'));
+    lockoutTitle.textContent = t('lockoutAfter');
+    lockoutToggle.setAttribute('aria-label', t('lockoutAfter'));
+    keyholdersTitle.textContent = t('keyholders');
+    keyholdersToggle.setAttribute('aria-label', t('keyholders'));
+    requiredInput.setAttribute('aria-label', t('keysRequired'));
+    keyholdersInput.setAttribute('aria-label', t('keyholdersTotal'));
+    keyholdersSuffix.textContent = t('keysOf');
+    scopeText.textContent = t('attemptsScope');
+    scopeOptions[0][1].textContent = t('attemptsScopeGlobal');
+    scopeOptions[1][1].textContent = t('attemptsScopeKeyholder');
     survivalTitle.textContent = t('survivalChance');
     survivalToggle.setAttribute('aria-label', t('survivalChance'));
+    damageTitle.textContent = t('damageLevel');
+    damageToggle.setAttribute('aria-label', t('damageLevel'));
+    imageTitle.textContent = t('imageMaxSize');
+    formatText.textContent = t('imageFormat');
+    qualityText.textContent = t('imageQuality');
+    effectsTitle.textContent = t('effects');
+    soundText.textContent = t('soundEffects');
+    motionText.textContent = t('animations');
+    lockText.textContent = t('lockType');
+    for (const [type, opt] of lockOptions) {
+      opt.textContent = t(LOCK_TEXTS[type].name);
+    }
+    tamperText.textContent = t('tamperPolicy');
+    const tamperKeys = {
+      refuse: 'tamperRefuse',
+      wrongPin: 'tamperWrongPin',
+      explode: 'tamperExplode',
+    } as const;
+    for (const [policy, opt] of tamperOptions) {
+      opt.textContent = t(tamperKeys[policy]);
+    }
     cancelBtn.textContent = t('cancel');
     saveBtn.textContent = t('save');
-    if (autoErr.textContent) autoErr.textContent = t('valueRangeError');
+    if (autoError) autoErr.textContent = t(autoError);
+    if (unlockError) unlockErr.textContent = t(unlockError);
     if (limitErr.textContent) limitErr.textContent = t('valueRangeError');
+    if (lockoutErr.textContent) lockoutErr.textContent = t('valueRangeError');
+    if (keyholdersErr.textContent) {
+      keyholdersErr.textContent = t('keyholdersRangeError');
+    }
     if (survivalErr.textContent)
       survivalErr.textContent = t('percentageRangeError');
+    if (damageErr.textContent) {
+      damageErr.textContent = t('percentageRangeError');
+    }
+    if (imageError) imageErr.textContent = t(imageError);
   }
 
   updateTexts();
 
   cancelBtn.addEventListener('click', cleanup);
 
+  function currentSettings(): SafeSettings {
+    return (findSafe(snapshot.id) ?? snapshot).settings;
+  }
+
   langSelect.addEventListener('change', () => {
-    snapshot.settings.language = langSelect.value as Lang;
-    setLang(snapshot.settings.language);
-    saveSnapshot(snapshot);
-    render();
+    dispatch(snapshot.id, {
+      type: 'configure',
+      settings: { ...currentSettings(), language: langSelect.value as Lang },
+    });
     updateTexts();
   });
 
@@ -464,16 +1327,42 @@ function openSettings(): void {
       Number.isInteger(autoVal) &&
       autoVal >= 1 &&
       autoVal <= 999;
+    const warningRaw = warningInput.value.trim();
+    const warningVal = Number(warningRaw);
+    const warningValid =
+      warningRaw !== '' &&
+      Number.isInteger(warningVal) &&
+      warningVal >= 1 &&
+      warningVal <= 100;
+    autoError = undefined;
     if (autoToggle.checked) {
       if (!autoValid) {
-        autoErr.textContent = t('valueRangeError');
+        autoError = 'valueRangeError';
         focusTarget = focusTarget ?? autoInput;
-      } else {
-        autoErr.textContent = '';
+      } else if (!warningValid) {
+        autoError = 'percentageRangeError';
+        focusTarget = focusTarget ?? warningInput;
+      }
+    }
+    autoErr.textContent = autoError ? t(autoError) : '';
+
+    // The timer starts at close, which can only push destructAt later.
+    const unlockVal = fromDateTimeInput(unlockInput.value);
+    const unlockValid = unlockVal !== undefined && unlockVal > Date.now();
+    unlockError = undefined;
+    if (unlockToggle.checked) {
+      if (!unlockValid) {
+        unlockError = 'unlockAtError';
+      } else if (
+        autoToggle.checked &&
+        autoValid &&
+        Date.now() + autoVal * 60 * 1000 < unlockVal
+      ) {
+        unlockError = 'unlockAfterDestructError';
       }
-    } else {
-      autoErr.textContent = '';
     }
+    unlockErr.textContent = unlockError ? t(unlockError) : '';
+    if (unlockError) focusTarget = focusTarget ?? unlockInput;
 
     const limitRaw = limitInput.value.trim();
     const limitVal = Number(limitRaw);
@@ -493,6 +1382,24 @@ function openSettings(): void {
       limitErr.textContent = '';
     }
 
+    const lockoutRaw = lockoutInput.value.trim();
+    const lockoutVal = Number(lockoutRaw);
+    const lockoutValid =
+      lockoutRaw !== '' &&
+      Number.isInteger(lockoutVal) &&
+      lockoutVal >= 1 &&
+      lockoutVal <= 999;
+    if (lockoutToggle.checked) {
+      if (!lockoutValid) {
+        lockoutErr.textContent = t('valueRangeError');
+        focusTarget = focusTarget ?? lockoutInput;
+      } else {
+        lockoutErr.textContent = '';
+      }
+    } else {
+      lockoutErr.textContent = '';
+    }
+
     const survivalRaw = survivalInput.value.trim();
     const survivalVal = Number(survivalRaw);
     const survivalValid =
@@ -511,60 +1418,126 @@ function openSettings(): void {
       survivalErr.textContent = '';
     }
 
+    const damageRaw = damageInput.value.trim();
+    const damageVal = Number(damageRaw);
+    const damageValid =
+      damageRaw !== '' &&
+      Number.isInteger(damageVal) &&
+      damageVal >= 1 &&
+      damageVal <= 100;
+    if (damageToggle.checked && !snapshot.hostedId && !damageValid) {
+      damageErr.textContent = t('percentageRangeError');
+      focusTarget = focusTarget ?? damageInput;
+    } else {
+      damageErr.textContent = '';
+    }
+
+    const keyholdersVal = keyholdersValues();
+    if (keyholdersToggle.checked && !snapshot.hostedId && !keyholdersVal) {
+      keyholdersErr.textContent = t('keyholdersRangeError');
+      focusTarget = focusTarget ?? requiredInput;
+    } else {
+      keyholdersErr.textContent = '';
+    }
+
+    const imageSize = Number(imageSizeInput.value.trim());
+    const imageQuality = Number(qualityInput.value.trim());
+    imageError = undefined;
+    if (
+      !Number.isInteger(imageSize) ||
+      imageSize < MIN_IMAGE_SIZE ||
+      imageSize > MAX_IMAGE_SIZE
+    ) {
+      imageError = 'imageSizeError';
+      focusTarget = focusTarget ?? imageSizeInput;
+    } else if (
+      qualityInput.value.trim() === '' ||
+      !Number.isInteger(imageQuality) ||
+      imageQuality < 1 ||
+      imageQuality > 100
+    ) {
+      imageError = 'percentageRangeError';
+      focusTarget = focusTarget ?? qualityInput;
+    }
+    imageErr.textContent = imageError ? t(imageError) : '';
+
     if (focusTarget) {
       focusTarget.focus();
       return;
     }
 
-    snapshot.settings.language = langSelect.value as Lang;
-    setLang(snapshot.settings.language);
+    const settings: SafeSettings = {
+      ...currentSettings(),
+      language: langSelect.value as Lang,
+    };
     if (autoValid) {
-      snapshot.settings.autodestructMinutesRemembered = autoVal;
+      settings.autodestructMinutesRemembered = autoVal;
     }
-    snapshot.settings.autodestructMinutes =
+    settings.autodestructMinutes =
       autoToggle.checked && autoValid ? autoVal : undefined;
+    settings.deadManSwitch = switchToggle.checked || undefined;
+    if (warningValid) {
+      settings.countdownWarning = warningVal;
+    }
+    if (unlockValid) {
+      settings.unlockAtRemembered = unlockVal;
+    }
+    settings.unlockAt =
+      unlockToggle.checked && unlockValid ? unlockVal : undefined;
     if (limitValid) {
-      snapshot.settings.pinAttemptsLimitRemembered = limitVal;
+      settings.pinAttemptsLimitRemembered = limitVal;
     }
-    snapshot.settings.pinAttemptsLimit =
+    settings.pinAttemptsLimit =
       limitToggle.checked && limitValid ? limitVal : undefined;
-    snapshot.settings.survivalEnabled = survivalToggle.checked;
+    if (lockoutValid) {
+      settings.lockoutAfterRemembered = lockoutVal;
+    }
+    settings.lockoutAfter =
+      lockoutToggle.checked && lockoutValid ? lockoutVal : undefined;
+    settings.survivalEnabled = survivalToggle.checked;
     if (survivalValid) {
-      snapshot.settings.survivalChanceRemembered = survivalVal;
+      settings.survivalChanceRemembered = survivalVal;
     }
-    snapshot.settings.survivalChance =
+    settings.survivalChance =
       survivalToggle.checked && survivalValid ? survivalVal : undefined;
-    saveSnapshot(snapshot);
+    if (damageValid) {
+      settings.damageLevelRemembered = damageVal;
+    }
+    settings.damageLevel =
+      damageToggle.checked && damageValid && !snapshot.hostedId
+        ? damageVal
+        : undefined;
+    settings.tamperPolicy = tamperSelect.value as TamperPolicy;
+    settings.lockType = lockSelect.value as LockType;
+    if (keyholdersVal) {
+      [settings.keysRequired, settings.keyholdersRemembered] = keyholdersVal;
+    }
+    settings.keyholders =
+      keyholdersToggle.checked && keyholdersVal ? keyholdersVal[1] : undefined;
+    settings.attemptsScope = scopeSelect.value as 'global' | 'keyholder';
+    settings.imageMaxSize = imageSize;
+    settings.imageFormat = formatSelect.value as ImageFormat;
+    settings.imageQuality = imageQuality;
+    settings.sound = soundToggle.checked ? undefined : false;
+    settings.motion = motionToggle.checked ? undefined : false;
+    dispatch(snapshot.id, { type: 'configure', settings });
     cleanup();
   });
 }
 
-function openAbout(): void {
+function openInfoDialog(label: string, body: HTMLElement[]): () => void {
   const overlay = document.createElement('div');
   overlay.className = 'settings-overlay';
   const dialog = document.createElement('div');
   dialog.className = 'info-dialog';
   dialog.setAttribute('role', 'dialog');
   dialog.setAttribute('aria-modal', 'true');
-  dialog.setAttribute('aria-label', t('about'));
+  dialog.setAttribute('aria-label', label);
   dialog.tabIndex = -1;
 
-  const title = document.createElement('h2');
-  title.textContent = t('aboutTitle');
-  dialog.appendChild(title);
-
-  const intro = document.createElement('p');
-  intro.textContent = t('aboutIntro');
-  dialog.appendChild(intro);
-
-  const how = document.createElement('p');
-  how.textContent = t('aboutHow');
-  dialog.appendChild(how);
-
-  const note = document.createElement('p');
-  note.className = 'info-note';
-  note.textContent = t('aboutNote');
-  dialog.appendChild(note);
+  for (const element of body) {
+    dialog.appendChild(element);
+  }
 
   const actions = document.createElement('div');
   actions.className = 'settings-actions';
@@ -601,66 +1574,437 @@ function openAbout(): void {
 
   document.body.appendChild(overlay);
   dialog.focus();
+  return cleanup;
 }
 
-function render(): void {
-  if (!app) return;
-  app.innerHTML = '';
-  if (snapshot.runtime.state === 'open') {
-    app.appendChild(renderOpen());
-  } else if (snapshot.runtime.state === 'closed') {
-    app.appendChild(renderClosed());
-  } else {
-    app.appendChild(renderDestroyed());
-  }
-}
+function openAbout(): void {
+  const title = document.createElement('h2');
+  title.textContent = t('aboutTitle');
 
-function openImagePreview(src: string): void {
-  const overlay = document.createElement('div');
-  overlay.className = 'image-overlay';
+  const intro = document.createElement('p');
+  intro.textContent = t('aboutIntro');
 
-  const dialog = document.createElement('div');
-  dialog.className = 'image-preview-dialog';
-  dialog.setAttribute('role', 'dialog');
-  dialog.setAttribute('aria-modal', 'true');
-  dialog.setAttribute('aria-label', t('viewImage'));
-  dialog.tabIndex = -1;
+  const how = document.createElement('p');
+  how.textContent = t('aboutHow');
 
-  const closeBtn = document.createElement('button');
-  closeBtn.type = 'button';
-  closeBtn.className = 'image-preview-close close-btn';
-  closeBtn.setAttribute('aria-label', t('closePreview'));
-  closeBtn.textContent = '×';
+  const note = document.createElement('p');
+  note.className = 'info-note';
+  note.textContent = t('aboutNote');
 
-  const img = document.createElement('img');
-  img.src = src;
-  img.alt = t('imageAlt');
-  img.className = 'image-preview-full';
+  openInfoDialog(t('about'), [title, intro, how, note]);
+}
 
-  const removeBtn = document.createElement('button');
-  removeBtn.type = 'button';
-  removeBtn.className = 'image-preview-remove close-btn';
-  removeBtn.textContent = t('removeImage');
-  removeBtn.addEventListener('click', () => {
-    snapshot.content.imageDataUrl = undefined;
-    saveSnapshot(snapshot);
-    cleanup();
-    render();
-  });
+function formatJournalTime(at: number): string {
+  const date = new Date(at);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return date.toLocaleString(
+    getLang(),
+    sameDay
+      ? { hour: '2-digit', minute: '2-digit' }
+      : { dateStyle: 'short', timeStyle: 'short' },
+  );
+}
 
-  dialog.appendChild(closeBtn);
-  dialog.appendChild(img);
-  dialog.appendChild(removeBtn);
-  overlay.appendChild(dialog);
+function wrongAttemptsLabel(count: number): string {
+  const keys = {
+    one: 'journalWrongPinOne',
+    few: 'journalWrongPinFew',
+    many: 'journalWrongPinMany',
+  } as const;
+  const rule = new Intl.PluralRules(getLang()).select(count);
+  const key = keys[rule as keyof typeof keys] ?? 'journalWrongPinOther';
+  return t(key).replace('{count}', String(count));
+}
 
-  function cleanup(): void {
-    if (overlay.parentNode) {
-      overlay.parentNode.removeChild(overlay);
+function journalLabel(entry: JournalEntry): string {
+  switch (entry.kind) {
+    case 'close':
+      return t('journalClosed');
+    case 'open':
+      return t('journalOpened');
+    case 'settings':
+      return t('journalSettings');
+    case 'tampered':
+      return t('journalTampered');
+    case 'checkIn':
+      return t('journalCheckIn');
+    case 'wrongPin':
+      return wrongAttemptsLabel(entry.count);
+    case 'destroyed':
+      return {
+        timer: t('journalTimerDestroyed'),
+        attempts: t('journalAttemptsDestroyed'),
+        manual: t('journalManualDestroyed'),
+        tamper: t('journalTamperDestroyed'),
+      }[entry.cause];
+    case 'survived':
+      return {
+        timer: t('journalTimerSurvived'),
+        attempts: t('journalAttemptsSurvived'),
+        manual: t('journalManualSurvived'),
+        tamper: t('journalTamperSurvived'),
+      }[entry.cause];
+  }
+}
+
+/**
+ * Turns the journal into readable lines, newest first. A run of wrong
+ * attempts is folded into the event that followed it, as in
+ * "3 wrong attempts, then autodestruct survived at 14:02".
+ */
+function describeJournal(journal: JournalEntry[]): string[] {
+  const at = (entry: JournalEntry) =>
+    `${journalLabel(entry)} ${t('journalAt')} ${formatJournalTime(entry.at)}`;
+  const lines: string[] = [];
+  let wrong: JournalEntry | undefined;
+  for (const entry of journal) {
+    if (entry.kind === 'wrongPin') {
+      if (wrong) lines.push(at(wrong));
+      wrong = entry;
+      continue;
     }
-    document.removeEventListener('keydown', onKeyDown);
+    lines.push(
+      wrong
+        ? `${journalLabel(wrong)}${t('journalThen')} ${at(entry)}`
+        : at(entry),
+    );
+    wrong = undefined;
   }
+  if (wrong) lines.push(at(wrong));
+  return lines
+    .map((line) => line.charAt(0).toLocaleUpperCase() + line.slice(1))
+    .reverse();
+}
 
-  function onKeyDown(event: KeyboardEvent): void {
+function openHistory(snapshot: SafeSnapshot): void {
+  const current = findSafe(snapshot.id) ?? snapshot;
+
+  const title = document.createElement('h2');
+  title.textContent = `${t('history')}: ${safeName(current)}`;
+
+  const lines = describeJournal(current.journal);
+  let body: HTMLElement;
+  if (lines.length === 0) {
+    body = document.createElement('p');
+    body.textContent = t('historyEmpty');
+  } else {
+    body = document.createElement('ol');
+    body.className = 'history-list';
+    for (const line of lines) {
+      const item = document.createElement('li');
+      item.textContent = line;
+      body.appendChild(item);
+    }
+  }
+
+  openInfoDialog(t('history'), [title, body]);
+}
+
+/** A horizontal bar per row, scaled to the largest value. */
+function renderBarChart(
+  caption: string,
+  rows: [label: string, value: number][],
+): HTMLElement {
+  const chart = document.createElement('figure');
+  chart.className = 'stats-chart';
+  const title = document.createElement('figcaption');
+  title.textContent = caption;
+  chart.appendChild(title);
+  const max = Math.max(1, ...rows.map(([, value]) => value));
+  for (const [label, value] of rows) {
+    const row = document.createElement('div');
+    row.className = 'stats-bar-row';
+    const name = document.createElement('span');
+    name.className = 'stats-bar-label';
+    name.textContent = label;
+    const track = document.createElement('span');
+    track.className = 'stats-bar-track';
+    const bar = document.createElement('span');
+    bar.className = 'stats-bar';
+    bar.style.width = `${(value / max) * 100}%`;
+    track.appendChild(bar);
+    const count = document.createElement('span');
+    count.className = 'stats-bar-value';
+    count.textContent = String(value);
+    row.append(name, track, count);
+    chart.appendChild(row);
+  }
+  return chart;
+}
+
+async function openStats(): Promise<void> {
+  const stats = await loadStats();
+
+  const title = document.createElement('h2');
+  title.textContent = t('statistics');
+
+  const figures = document.createElement('dl');
+  figures.className = 'stats-figures';
+  const average =
+    stats.outcomes > 0 ? stats.outcomeTime / stats.outcomes : undefined;
+  const rows: [Parameters<typeof t>[0], string][] = [
+    ['statsCreated', String(stats.created)],
+    [
+      'statsLongestClosed',
+      stats.outcomes > 0 ? formatRemaining(stats.longestClosed, true) : '–',
+    ],
+    [
+      'statsAverageClosed',
+      average !== undefined ? formatRemaining(average, true) : '–',
+    ],
+  ];
+  for (const [key, value] of rows) {
+    const term = document.createElement('dt');
+    term.textContent = t(key);
+    const detail = document.createElement('dd');
+    detail.textContent = value;
+    figures.append(term, detail);
+  }
+
+  const outcomes = renderBarChart(t('statsOutcomes'), [
+    [t('statsOpened'), stats.opened],
+    [t('statsSurvived'), stats.survived],
+    [t('statsDestroyedTimer'), stats.destroyed.timer],
+    [t('statsDestroyedAttempts'), stats.destroyed.attempts],
+    [t('statsDestroyedManual'), stats.destroyed.manual],
+    [t('statsDestroyedTamper'), stats.destroyed.tamper],
+  ]);
+  const attempts = renderBarChart(
+    t('statsWrongAttempts'),
+    stats.wrongAttempts.map((value, index) => [
+      index === ATTEMPT_BUCKETS ? `${index}+` : String(index),
+      value,
+    ]),
+  );
+
+  const privacy = document.createElement('p');
+  privacy.className = 'closed-info';
+  privacy.textContent = t('statsPrivacy');
+
+  openInfoDialog(t('statistics'), [
+    title,
+    figures,
+    outcomes,
+    attempts,
+    privacy,
+  ]);
+}
+
+function openNotice(heading: string, message: string): void {
+  const title = document.createElement('h2');
+  title.textContent = heading;
+
+  const text = document.createElement('p');
+  text.textContent = message;
+
+  openInfoDialog(heading, [title, text]);
+}
+
+async function openShare(snapshot: SafeSnapshot): Promise<void> {
+  const url = await createShareLink(
+    snapshot,
+    `${location.origin}${location.pathname}`,
+  );
+
+  const title = document.createElement('h2');
+  title.textContent = t('shareSafe');
+
+  const hint = document.createElement('p');
+  hint.textContent = t('shareSafeHint');
+
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.readOnly = true;
+  input.value = url;
+  input.className = 'share-link-input';
+  input.addEventListener('focus', () => input.select());
+
+  const copyBtn = document.createElement('button');
+  copyBtn.type = 'button';
+  copyBtn.className = 'close-btn';
+  copyBtn.textContent = t('copyLink');
+  copyBtn.addEventListener('click', async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      copyBtn.textContent = t('linkCopied');
+    } catch {
+      input.select();
+    }
+  });
+
+  openInfoDialog(t('shareSafe'), [title, hint, input, copyBtn]);
+}
+
+async function importShareLink(): Promise<void> {
+  const hash = location.hash;
+  if (!isShareFragment(hash)) return;
+  history.replaceState(null, '', `${location.pathname}${location.search}`);
+  try {
+    const snapshot = await signed(await readShareLink(hash, Date.now()));
+    safes.push(snapshot);
+    scheduleTimers();
+    showSafe(snapshot.id);
+  } catch (error) {
+    if (!(error instanceof ShareLinkError)) throw error;
+    openNotice(t('shareLinkInvalid'), t('shareLinkInvalidDescription'));
+  }
+}
+
+// A new release, installed and waiting for the player to switch to it.
+let waitingUpdate: ServiceWorker | undefined;
+let reloading = false;
+
+/** Reloads into the new release once every save has been written. */
+function reloadWhenSaved(): void {
+  if (reloading) return;
+  reloading = true;
+  void whenSaved().then(() => location.reload());
+}
+
+function applyUpdate(worker: ServiceWorker): void {
+  // Another tab may already have switched to it.
+  if (worker.state !== 'installed') {
+    reloadWhenSaved();
+    return;
+  }
+  worker.addEventListener('statechange', () => {
+    if (worker.state === 'activated') reloadWhenSaved();
+  });
+  worker.postMessage({ type: 'skipWaiting' });
+}
+
+function renderUpdateBanner(worker: ServiceWorker): HTMLElement {
+  const banner = document.createElement('div');
+  banner.className = 'update-banner';
+  banner.setAttribute('role', 'status');
+
+  const text = document.createElement('span');
+  text.textContent = t('updateAvailable');
+
+  const updateBtn = document.createElement('button');
+  updateBtn.type = 'button';
+  updateBtn.className = 'close-btn';
+  updateBtn.textContent = t('updateNow');
+  updateBtn.addEventListener('click', () => {
+    updateBtn.disabled = true;
+    applyUpdate(worker);
+  });
+
+  const laterBtn = document.createElement('button');
+  laterBtn.type = 'button';
+  laterBtn.className = 'close-btn';
+  laterBtn.textContent = t('updateLater');
+  laterBtn.addEventListener('click', () => {
+    waitingUpdate = undefined;
+    render();
+  });
+
+  banner.append(text, updateBtn, laterBtn);
+  return banner;
+}
+
+/**
+ * Registers the service worker that keeps the game working offline, and
+ * offers each new release once it has been installed.
+ */
+async function registerServiceWorker(): Promise<void> {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  let registration: ServiceWorkerRegistration;
+  try {
+    registration = await navigator.serviceWorker.register('/sw.js');
+  } catch {
+    return;
+  }
+  const offer = () => {
+    // The first install has nothing to replace, so it is never offered.
+    if (!registration.waiting || !registration.active) return;
+    waitingUpdate = registration.waiting;
+    render();
+  };
+  offer();
+  registration.addEventListener('updatefound', () => {
+    const worker = registration.installing;
+    worker?.addEventListener('statechange', () => {
+      if (worker.state === 'installed') offer();
+    });
+  });
+  // Tabs still on the old release follow the one that switched.
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    reloadWhenSaved();
+  });
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') {
+      registration.update().catch(() => undefined);
+    }
+  });
+}
+
+function render(): void {
+  if (!app) return;
+  app.innerHTML = '';
+  const snapshot = findSafe(activeId);
+  if (!snapshot) {
+    app.appendChild(renderSafeList());
+  } else if (snapshot.runtime.state === 'open') {
+    app.appendChild(renderOpen(snapshot));
+  } else if (snapshot.runtime.state === 'closed') {
+    app.appendChild(renderClosed(snapshot));
+  } else {
+    app.appendChild(renderDestroyed(snapshot));
+  }
+  if (waitingUpdate) {
+    app.appendChild(renderUpdateBanner(waitingUpdate));
+  }
+}
+
+function openImagePreview(
+  snapshot: SafeSnapshot,
+  compartment: SafeContent,
+  attachment: Attachment,
+): void {
+  const overlay = document.createElement('div');
+  overlay.className = 'image-overlay';
+
+  const dialog = document.createElement('div');
+  dialog.className = 'image-preview-dialog';
+  dialog.setAttribute('role', 'dialog');
+  dialog.setAttribute('aria-modal', 'true');
+  dialog.setAttribute('aria-label', t('viewImage'));
+  dialog.tabIndex = -1;
+
+  const closeBtn = document.createElement('button');
+  closeBtn.type = 'button';
+  closeBtn.className = 'image-preview-close close-btn';
+  closeBtn.setAttribute('aria-label', t('closePreview'));
+  closeBtn.textContent = '×';
+
+  const img = document.createElement('img');
+  img.src = attachment.dataUrl;
+  img.alt = attachment.name || t('imageAlt');
+  img.className = 'image-preview-full';
+
+  const removeBtn = document.createElement('button');
+  removeBtn.type = 'button';
+  removeBtn.className = 'image-preview-remove close-btn';
+  removeBtn.textContent = t('removeImage');
+  removeBtn.addEventListener('click', () => {
+    removeAttachment(snapshot, compartment, attachment);
+    cleanup();
+  });
+
+  dialog.appendChild(closeBtn);
+  dialog.appendChild(img);
+  dialog.appendChild(removeBtn);
+  overlay.appendChild(dialog);
+
+  function cleanup(): void {
+    if (overlay.parentNode) {
+      overlay.parentNode.removeChild(overlay);
+    }
+    document.removeEventListener('keydown', onKeyDown);
+  }
+
+  function onKeyDown(event: KeyboardEvent): void {
     if (event.key === 'Escape') {
       event.preventDefault();
       cleanup();
@@ -679,7 +2023,334 @@ function openImagePreview(src: string): void {
   closeBtn.focus();
 }
 
-function renderOpen(): HTMLElement {
+function safeName(snapshot: SafeSnapshot): string {
+  return snapshot.name || t('untitledSafe');
+}
+
+function showSafe(id: string | undefined): void {
+  activeId = id;
+  const snapshot = findSafe(id);
+  if (snapshot) setLang(snapshot.settings.language);
+  persist();
+  render();
+}
+
+async function createSafe(hosted: boolean): Promise<void> {
+  const name = await promptText(
+    t('safeName'),
+    `${t('defaultSafeName')} ${safes.length + 1}`,
+  );
+  if (name === null) return;
+  const snapshot = spawnSafe(getLang(), name);
+  if (hosted) {
+    const created = await requestHosted(createHostedSafe);
+    if (!created) return;
+    snapshot.hostedId = created.hostedId;
+  }
+  safes.push(await signed(snapshot));
+  recordStats(countCreated);
+  showSafe(snapshot.id);
+}
+
+async function startNewSafe(snapshot: SafeSnapshot): Promise<void> {
+  if (!snapshot.hostedId) {
+    dispatch(snapshot.id, { type: 'startNew' });
+    return;
+  }
+  const created = await requestHosted(createHostedSafe);
+  if (!created) return;
+  dispatch(snapshot.id, { type: 'startNew', hostedId: created.hostedId });
+}
+
+async function renameSafe(snapshot: SafeSnapshot): Promise<void> {
+  const name = await promptText(t('safeName'), snapshot.name);
+  if (name === null) return;
+  snapshot.name = name;
+  touch(snapshot);
+  render();
+}
+
+function deleteSafe(snapshot: SafeSnapshot): void {
+  if (!confirm(t('confirmDeleteSafe'))) return;
+  safes = safes.filter((safe) => safe.id !== snapshot.id);
+  deleted.push(snapshot.id);
+  if (activeId === snapshot.id) activeId = undefined;
+  persist();
+  scheduleTimers();
+  render();
+}
+
+function exportSafe(snapshot: SafeSnapshot): void {
+  const { state, sealed, compartments, shared } = snapshot.runtime;
+  const encrypted = sealed ?? compartments ?? shared;
+  if (state === 'closed' && !encrypted && !snapshot.hostedId) {
+    // Closed before encryption at rest: the content is still plaintext.
+    openNotice(t('exportUnsealed'), t('exportUnsealedDescription'));
+    return;
+  }
+  const blob = new Blob([exportSnapshot(snapshot)], {
+    type: 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${safeName(snapshot)}.sejf`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function importSafe(): void {
+  const fileInput = document.createElement('input');
+  fileInput.type = 'file';
+  fileInput.accept = '.sejf,application/json';
+  fileInput.addEventListener('change', async () => {
+    const file = fileInput.files?.[0];
+    if (!file) return;
+    const imported = importSnapshot(await file.text());
+    if (!imported) {
+      openNotice(t('importFailed'), t('importFailedDescription'));
+      return;
+    }
+    const { snapshot } = imported;
+    // The tag is keyed by id, so check it before a clash renames the safe.
+    const intact = imported.unsigned || (await isIntact(snapshot));
+    if (!intact && tamperPolicy(snapshot) === 'refuse') {
+      openNotice(t('tamperDetected'), t('tamperImportRefusedDescription'));
+      return;
+    }
+    if (findSafe(snapshot.id)) snapshot.id = crypto.randomUUID();
+    safes.push(await signed(snapshot));
+    showSafe(snapshot.id);
+    if (!intact) {
+      dispatch(snapshot.id, { type: 'tamper', now: Date.now() });
+      openNotice(
+        t('tamperDetected'),
+        `${t('tamperHandledDescription')} ${safeName(snapshot)}.`,
+      );
+    }
+    // A deadline that passed while the safe sat in a file fires right away.
+    tick(snapshot.id);
+  });
+  fileInput.click();
+}
+
+function stateLabel(snapshot: SafeSnapshot): string {
+  switch (snapshot.runtime.state) {
+    case 'open':
+      return t('safeOpen');
+    case 'closed':
+      return t('safeClosed');
+    case 'destroyed':
+      return t('safeDestroyed');
+  }
+}
+
+function renderNavIcons(snapshot: SafeSnapshot): HTMLElement {
+  const icons = document.createElement('div');
+  icons.className = 'panel-icons panel-icons--start';
+  const listBtn = document.createElement('button');
+  listBtn.type = 'button';
+  listBtn.className = 'panel-icon-button';
+  listBtn.textContent = '🗄️';
+  listBtn.setAttribute('aria-label', t('allSafes'));
+  listBtn.title = t('allSafes');
+  listBtn.addEventListener('click', () => showSafe(undefined));
+  icons.appendChild(listBtn);
+  const historyBtn = document.createElement('button');
+  historyBtn.type = 'button';
+  historyBtn.className = 'panel-icon-button';
+  historyBtn.textContent = '📜';
+  historyBtn.setAttribute('aria-label', t('history'));
+  historyBtn.title = t('history');
+  historyBtn.addEventListener('click', () => openHistory(snapshot));
+  icons.appendChild(historyBtn);
+  icons.appendChild(renderStatsButton());
+  return icons;
+}
+
+function renderStatsButton(): HTMLElement {
+  const statsBtn = document.createElement('button');
+  statsBtn.type = 'button';
+  statsBtn.className = 'panel-icon-button';
+  statsBtn.textContent = '📊';
+  statsBtn.setAttribute('aria-label', t('statistics'));
+  statsBtn.title = t('statistics');
+  statsBtn.addEventListener('click', () => void openStats());
+  return statsBtn;
+}
+
+function renderSafeName(snapshot: SafeSnapshot): HTMLElement {
+  const name = document.createElement('p');
+  name.className = 'safe-name';
+  name.textContent = safeName(snapshot);
+  if (snapshot.hostedId) {
+    const badge = document.createElement('span');
+    badge.className = 'safe-hosted-badge';
+    badge.textContent = t('hostedBadge');
+    badge.title = t('hostedSafeHint');
+    name.appendChild(badge);
+  }
+  return name;
+}
+
+function renderSafeList(): HTMLElement {
+  const panel = document.createElement('div');
+  panel.className = 'safe-panel';
+
+  const icons = document.createElement('div');
+  icons.className = 'panel-icons';
+  const infoBtn = document.createElement('button');
+  infoBtn.type = 'button';
+  infoBtn.className = 'panel-icon-button info-icon';
+  infoBtn.textContent = 'ℹ️';
+  infoBtn.setAttribute('aria-label', t('about'));
+  infoBtn.title = t('about');
+  infoBtn.addEventListener('click', openAbout);
+  icons.appendChild(infoBtn);
+  panel.appendChild(icons);
+
+  const navIcons = document.createElement('div');
+  navIcons.className = 'panel-icons panel-icons--start';
+  navIcons.appendChild(renderStatsButton());
+  panel.appendChild(navIcons);
+
+  const title = document.createElement('h2');
+  title.className = 'safe-list-title';
+  title.textContent = t('safesTitle');
+  panel.appendChild(title);
+
+  const list = document.createElement('ul');
+  list.className = 'safe-list';
+
+  if (safes.length === 0) {
+    const empty = document.createElement('p');
+    empty.className = 'closed-info';
+    empty.textContent = t('noSafes');
+    panel.appendChild(empty);
+  }
+
+  for (const snapshot of safes) {
+    const item = document.createElement('li');
+    item.className = 'safe-list-item';
+
+    const openBtn = document.createElement('button');
+    openBtn.type = 'button';
+    openBtn.className = 'safe-list-open';
+    const name = document.createElement('span');
+    name.className = 'safe-list-name';
+    name.textContent = safeName(snapshot);
+    if (snapshot.hostedId) {
+      const badge = document.createElement('span');
+      badge.className = 'safe-hosted-badge';
+      badge.textContent = t('hostedBadge');
+      name.appendChild(badge);
+    }
+    const state = document.createElement('span');
+    state.className = `safe-list-state safe-list-state--${snapshot.runtime.state}`;
+    state.textContent = stateLabel(snapshot);
+    openBtn.appendChild(name);
+    openBtn.appendChild(state);
+    if (
+      snapshot.runtime.state === 'closed' &&
+      snapshot.runtime.destructAt !== undefined
+    ) {
+      const timer = document.createElement('span');
+      timer.className = 'safe-list-countdown';
+      timer.dataset.countdown = snapshot.id;
+      updateCountdownElement(timer);
+      openBtn.appendChild(timer);
+    }
+    openBtn.addEventListener('click', () => showSafe(snapshot.id));
+    item.appendChild(openBtn);
+
+    const actions = document.createElement('div');
+    actions.className = 'safe-list-actions';
+    const renameBtn = document.createElement('button');
+    renameBtn.type = 'button';
+    renameBtn.className = 'close-btn';
+    renameBtn.textContent = t('renameSafe');
+    renameBtn.addEventListener('click', () => renameSafe(snapshot));
+    actions.appendChild(renameBtn);
+    const exportBtn = document.createElement('button');
+    exportBtn.type = 'button';
+    exportBtn.className = 'close-btn';
+    exportBtn.textContent = t('exportSafe');
+    exportBtn.addEventListener('click', () => exportSafe(snapshot));
+    actions.appendChild(exportBtn);
+    const deleteBtn = document.createElement('button');
+    deleteBtn.type = 'button';
+    deleteBtn.className = 'close-btn danger-btn';
+    deleteBtn.textContent = t('deleteSafe');
+    deleteBtn.addEventListener('click', () => deleteSafe(snapshot));
+    actions.appendChild(deleteBtn);
+    item.appendChild(actions);
+
+    list.appendChild(item);
+  }
+  panel.appendChild(list);
+
+  const newActions = document.createElement('div');
+  newActions.className = 'safe-actions';
+  const newBtn = document.createElement('button');
+  newBtn.className = 'close-btn';
+  newBtn.textContent = t('newSafe');
+  newBtn.addEventListener('click', () => createSafe(false));
+  newActions.appendChild(newBtn);
+  const newHostedBtn = document.createElement('button');
+  newHostedBtn.className = 'close-btn';
+  newHostedBtn.textContent = t('newHostedSafe');
+  newHostedBtn.title = t('hostedSafeHint');
+  newHostedBtn.addEventListener('click', () => createSafe(true));
+  newActions.appendChild(newHostedBtn);
+  panel.appendChild(newActions);
+
+  const importBtn = document.createElement('button');
+  importBtn.className = 'close-btn';
+  importBtn.textContent = t('importSafe');
+  importBtn.addEventListener('click', importSafe);
+  panel.appendChild(importBtn);
+
+  return panel;
+}
+
+/** Open safes showing their decoy compartment; never persisted. */
+const showingDecoy = new Set<string>();
+
+/**
+ * Empty decoy compartments on screen, per safe. One becomes the safe's
+ * decoy with the first edit, so merely looking doesn't change the safe.
+ */
+const decoyDrafts = new Map<string, SafeContent>();
+
+/**
+ * Hosted and keyholder safes seal their content whole, so they offer no
+ * decoy; one left from before keeps its switch until it is emptied. A safe
+ * opened with the decoy PIN closes into its compartments regardless.
+ */
+function canHoldDecoy(snapshot: SafeSnapshot): boolean {
+  if (snapshot.hostedId) return hasContent(snapshot.decoy);
+  return (
+    snapshot.settings.keyholders === undefined ||
+    snapshot.runtime.main !== undefined ||
+    hasContent(snapshot.decoy)
+  );
+}
+
+/** The compartment on screen, the real one unless switched to the decoy. */
+function shownCompartment(snapshot: SafeSnapshot): SafeContent {
+  if (!showingDecoy.has(snapshot.id) || !canHoldDecoy(snapshot)) {
+    return snapshot.content;
+  }
+  if (snapshot.decoy) return snapshot.decoy;
+  let draft = decoyDrafts.get(snapshot.id);
+  if (!draft) {
+    draft = { text: '' };
+    decoyDrafts.set(snapshot.id, draft);
+  }
+  return draft;
+}
+
+function renderOpen(snapshot: SafeSnapshot): HTMLElement {
   const panel = document.createElement('div');
   panel.className = 'safe-panel';
 
@@ -701,16 +2372,34 @@ function renderOpen(): HTMLElement {
   settingsBtn.textContent = '⚙️';
   settingsBtn.setAttribute('aria-label', t('settings'));
   settingsBtn.title = t('settings');
-  settingsBtn.addEventListener('click', openSettings);
+  settingsBtn.addEventListener('click', () => openSettings(snapshot));
   icons.appendChild(settingsBtn);
 
   panel.appendChild(icons);
+  panel.appendChild(renderNavIcons(snapshot));
 
+  // The safe icon doubles as the unlabelled switch to the decoy, and the
+  // view looks the same whichever PIN opened the safe.
+  const compartment = shownCompartment(snapshot);
   const icon = document.createElement('img');
   icon.src = '/safe.webp';
   icon.alt = '';
   icon.className = 'safe-icon';
-  panel.appendChild(icon);
+  if (canHoldDecoy(snapshot)) {
+    const iconBtn = document.createElement('button');
+    iconBtn.type = 'button';
+    iconBtn.className = 'safe-icon-button';
+    iconBtn.setAttribute('aria-label', t('switchCompartment'));
+    iconBtn.addEventListener('click', () => {
+      if (!showingDecoy.delete(snapshot.id)) showingDecoy.add(snapshot.id);
+      render();
+    });
+    iconBtn.appendChild(icon);
+    panel.appendChild(iconBtn);
+  } else {
+    panel.appendChild(icon);
+  }
+  panel.appendChild(renderSafeName(snapshot));
 
   const state = document.createElement('p');
   state.className = 'safe-state safe-state--open';
@@ -722,51 +2411,53 @@ function renderOpen(): HTMLElement {
 
   const fileInput = document.createElement('input');
   fileInput.type = 'file';
-  fileInput.accept = 'image/*';
+  fileInput.multiple = true;
   fileInput.className = 'file-input';
   fileInput.addEventListener('change', () => {
-    const file = fileInput.files?.[0];
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = () => {
-      snapshot.content.imageDataUrl = reader.result as string;
-      saveSnapshot(snapshot);
-      render();
-    };
-    reader.readAsDataURL(file);
+    void addAttachments(snapshot, compartment, fileInput.files);
   });
 
-  const imageUrl = snapshot.content.imageDataUrl;
-  const hasImage = Boolean(imageUrl);
+  content.addEventListener('dragover', (event) => {
+    if (!event.dataTransfer?.types.includes('Files')) return;
+    event.preventDefault();
+    content.classList.add('safe-content--drop');
+  });
+  content.addEventListener('dragleave', (event) => {
+    if (!content.contains(event.relatedTarget as Node | null)) {
+      content.classList.remove('safe-content--drop');
+    }
+  });
+  content.addEventListener('drop', (event) => {
+    if (!event.dataTransfer?.files.length) return;
+    event.preventDefault();
+    content.classList.remove('safe-content--drop');
+    void addAttachments(snapshot, compartment, event.dataTransfer.files);
+  });
 
   const textarea = document.createElement('textarea');
-  textarea.value = snapshot.content.text;
+  textarea.value = compartment.text;
   textarea.placeholder = t('secretPlaceholder');
   textarea.addEventListener('input', () => {
-    snapshot.content.text = textarea.value;
-    saveSnapshot(snapshot);
+    compartment.text = textarea.value;
+    touch(snapshot);
+  });
+  textarea.addEventListener('paste', (event) => {
+    // Pasted text goes to the textarea as usual; pasted files are attached.
+    if (!event.clipboardData?.files.length) return;
+    event.preventDefault();
+    void addAttachments(snapshot, compartment, event.clipboardData.files);
   });
 
+  content.appendChild(renderMarkdownBar(snapshot, compartment, textarea));
   content.appendChild(textarea);
+  if (compartment.format === 'markdown') {
+    textarea.classList.add('markdown-source');
+    content.appendChild(renderMarkdownPreview(compartment, textarea));
+  }
   content.appendChild(fileInput);
 
-  if (imageUrl) {
-    const thumbButton = document.createElement('button');
-    thumbButton.type = 'button';
-    thumbButton.className = 'image-thumb';
-    thumbButton.setAttribute('aria-label', t('viewImage'));
-
-    const thumbImg = document.createElement('img');
-    thumbImg.src = imageUrl;
-    thumbImg.alt = t('imageAlt');
-    thumbImg.className = 'image-thumb-img';
-
-    thumbButton.appendChild(thumbImg);
-    thumbButton.addEventListener('click', () => {
-      openImagePreview(imageUrl);
-    });
-
-    content.appendChild(thumbButton);
+  if (compartment.attachments?.length) {
+    content.appendChild(renderAttachments(snapshot, compartment));
   }
 
   panel.appendChild(content);
@@ -774,25 +2465,44 @@ function renderOpen(): HTMLElement {
   const actions = document.createElement('div');
   actions.className = 'safe-actions';
 
-  const imageBtn = document.createElement('button');
-  imageBtn.className = 'close-btn image-action-btn';
-  imageBtn.textContent = hasImage ? t('replaceImage') : t('chooseImage');
-  imageBtn.addEventListener('click', () => fileInput.click());
-  actions.appendChild(imageBtn);
+  const attachBtn = document.createElement('button');
+  attachBtn.className = 'close-btn image-action-btn';
+  attachBtn.textContent = t('addFiles');
+  attachBtn.title = t('addFilesHint');
+  attachBtn.addEventListener('click', () => fileInput.click());
+  actions.appendChild(attachBtn);
 
   const closeBtn = document.createElement('button');
   closeBtn.className = 'close-btn';
   closeBtn.textContent = t('closeSafe');
   closeBtn.addEventListener('click', async () => {
-    const pin = await promptPin(t('setPin'));
-    if (pin === null || pin === '') return;
-    const confirmPin = await promptPin(t('confirmPin'));
-    if (confirmPin === null || confirmPin !== pin) {
-      alert(t('pinMismatch'));
+    const lockType = snapshot.settings.lockType ?? 'pin';
+    const keyholders = snapshot.settings.keyholders;
+    const shared =
+      keyholders !== undefined && !snapshot.hostedId && !snapshot.runtime.main;
+    if ((shared || snapshot.hostedId) && hasContent(snapshot.decoy)) {
+      alert(t('decoyUnsupported'));
+      return;
+    }
+    if (shared) {
+      await closeShared(snapshot, lockType, keyholders);
+      return;
+    }
+    const pin = await promptNewSecret(lockType, '');
+    if (pin === null) return;
+    if (!snapshot.hostedId) {
+      await closeLocal(snapshot, lockType, pin);
       return;
     }
-    const pinHash = await hashPin(pin);
-    dispatch({ type: 'close', pinHash, now: Date.now() });
+    const pinHash = await hashPin(pin, HOSTED_PIN_KDF_ITERATIONS);
+    const sealed = await sealContent(snapshot.content, pin);
+    await syncHosted(snapshot.id, (hostedId) =>
+      closeHostedSafe(hostedId, {
+        pinHash,
+        sealed,
+        rules: hostedRules(snapshot.settings),
+      }),
+    );
   });
   actions.appendChild(closeBtn);
   panel.appendChild(actions);
@@ -800,15 +2510,619 @@ function renderOpen(): HTMLElement {
   return panel;
 }
 
-function renderClosed(): HTMLElement {
+const MARKDOWN_ACTIONS: [
+  action: MarkdownAction,
+  symbol: string,
+  label: Parameters<typeof t>[0],
+][] = [
+  ['bold', 'B', 'markdownBold'],
+  ['italic', 'I', 'markdownItalic'],
+  ['heading', 'H', 'markdownHeading'],
+  ['list', '•', 'markdownList'],
+  ['task', '☑', 'markdownTask'],
+  ['code', '</>', 'markdownCode'],
+  ['link', '🔗', 'markdownLink'],
+  ['table', '▦', 'markdownTable'],
+];
+
+/**
+ * The Markdown switch above the text and, while it is on, the formatting
+ * toolbar. Toolbar edits go through the textarea's input event, the same
+ * as typing.
+ */
+function renderMarkdownBar(
+  snapshot: SafeSnapshot,
+  compartment: SafeContent,
+  textarea: HTMLTextAreaElement,
+): HTMLElement {
+  const bar = document.createElement('div');
+  bar.className = 'markdown-bar';
+
+  const label = document.createElement('label');
+  label.className = 'markdown-switch';
+  const toggle = document.createElement('input');
+  toggle.type = 'checkbox';
+  toggle.checked = compartment.format === 'markdown';
+  toggle.addEventListener('change', () => {
+    if (toggle.checked) compartment.format = 'markdown';
+    else delete compartment.format;
+    touch(snapshot);
+    render();
+  });
+  label.append(toggle, ` ${t('markdown')}`);
+  bar.appendChild(label);
+  if (compartment.format !== 'markdown') return bar;
+
+  const toolbar = document.createElement('div');
+  toolbar.className = 'markdown-toolbar';
+  toolbar.setAttribute('role', 'toolbar');
+  for (const [action, symbol, key] of MARKDOWN_ACTIONS) {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'markdown-tool';
+    button.textContent = symbol;
+    button.title = t(key);
+    button.setAttribute('aria-label', t(key));
+    button.addEventListener('click', () => {
+      const edit = applyAction(
+        textarea.value,
+        textarea.selectionStart,
+        textarea.selectionEnd,
+        action,
+      );
+      textarea.value = edit.value;
+      textarea.focus();
+      textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+      textarea.dispatchEvent(new Event('input'));
+    });
+    toolbar.appendChild(button);
+  }
+  bar.appendChild(toolbar);
+  return bar;
+}
+
+/**
+ * The live preview of Markdown text, redrawn on every keystroke. Ticking
+ * a task in it edits the text.
+ */
+function renderMarkdownPreview(
+  compartment: SafeContent,
+  textarea: HTMLTextAreaElement,
+): HTMLElement {
+  const preview = document.createElement('div');
+  preview.className = 'markdown-preview';
+  preview.setAttribute('aria-label', t('markdownPreview'));
+  const refresh = () => {
+    preview.replaceChildren(
+      renderMarkdown(compartment.text, {
+        onToggleTask: (line) => {
+          textarea.value = toggleTask(compartment.text, line);
+          textarea.dispatchEvent(new Event('input'));
+        },
+      }),
+    );
+  };
+  textarea.addEventListener('input', refresh);
+  refresh();
+  return preview;
+}
+
+/**
+ * Lists a compartment's attachments with whatever preview the browser can
+ * give: a thumbnail for images, a player for audio, an icon for the rest.
+ */
+function renderAttachments(
+  snapshot: SafeSnapshot,
+  compartment: SafeContent,
+): HTMLElement {
+  const list = document.createElement('ul');
+  list.className = 'attachment-list';
+  for (const attachment of compartment.attachments ?? []) {
+    const item = document.createElement('li');
+    item.className = 'attachment-item';
+    const name = attachment.name || t('unnamedAttachment');
+
+    if (attachment.type.startsWith('image/')) {
+      const thumbButton = document.createElement('button');
+      thumbButton.type = 'button';
+      thumbButton.className = 'image-thumb';
+      thumbButton.setAttribute('aria-label', t('viewImage'));
+      const thumbImg = document.createElement('img');
+      thumbImg.src = attachment.dataUrl;
+      thumbImg.alt = name;
+      thumbImg.className = 'image-thumb-img';
+      thumbButton.appendChild(thumbImg);
+      thumbButton.addEventListener('click', () => {
+        openImagePreview(snapshot, compartment, attachment);
+      });
+      item.appendChild(thumbButton);
+    } else {
+      const icon = document.createElement('span');
+      icon.className = 'attachment-icon';
+      icon.setAttribute('aria-hidden', 'true');
+      icon.textContent = attachment.type === 'application/pdf' ? '📄' : '📎';
+      item.appendChild(icon);
+    }
+
+    const details = document.createElement('div');
+    details.className = 'attachment-details';
+    const label = document.createElement('span');
+    label.className = 'attachment-name';
+    label.textContent = name;
+    label.title = name;
+    details.appendChild(label);
+    const size = document.createElement('span');
+    size.className = 'attachment-size';
+    size.textContent = formatSize(attachment.size);
+    details.appendChild(size);
+    if (attachment.type.startsWith('audio/')) {
+      const audio = document.createElement('audio');
+      audio.controls = true;
+      audio.preload = 'metadata';
+      audio.src = attachment.dataUrl;
+      audio.className = 'attachment-audio';
+      details.appendChild(audio);
+    }
+    item.appendChild(details);
+
+    const download = document.createElement('a');
+    download.className = 'close-btn attachment-action';
+    download.href = attachment.dataUrl;
+    download.download = attachment.name || 'attachment';
+    download.textContent = t('download');
+    download.setAttribute('aria-label', `${t('download')}: ${name}`);
+    item.appendChild(download);
+
+    const removeBtn = document.createElement('button');
+    removeBtn.type = 'button';
+    removeBtn.className = 'close-btn attachment-action';
+    removeBtn.textContent = t('removeAttachment');
+    removeBtn.setAttribute('aria-label', `${t('removeAttachment')}: ${name}`);
+    removeBtn.addEventListener('click', () => {
+      removeAttachment(snapshot, compartment, attachment);
+    });
+    item.appendChild(removeBtn);
+
+    list.appendChild(item);
+  }
+  return list;
+}
+
+async function addAttachments(
+  snapshot: SafeSnapshot,
+  compartment: SafeContent,
+  files: FileList | null,
+): Promise<void> {
+  if (!files || files.length === 0) return;
+  const picked = Array.from(files);
+  const options = imageOptions(snapshot.settings);
+  const processed = await Promise.all(
+    picked
+      .filter(isProcessedImage)
+      .map((file) => processImage(file, options)),
+  );
+  let keepOriginals = false;
+  if (processed.length > 0) {
+    const choice = await confirmImages(processed);
+    if (choice === null) return;
+    keepOriginals = choice;
+  }
+  // Originals only go in on request; undecodable images need that too.
+  const stored = picked.flatMap((file) => {
+    const image = processed.find(({ original }) => original === file);
+    if (!image || keepOriginals) return [file];
+    return image.file ? [image.file] : [];
+  });
+  let added: Attachment[];
+  try {
+    added = await Promise.all(stored.map(readAttachment));
+  } catch {
+    alert(t('attachmentReadError'));
+    return;
+  }
+  if (added.length === 0) return;
+  compartment.attachments = [...(compartment.attachments ?? []), ...added];
+  touch(snapshot);
+  render();
+}
+
+/**
+ * Shows what each image will take up once processed. Resolves to whether
+ * the originals should be kept as they are, or null when cancelled.
+ */
+function confirmImages(images: ProcessedImage[]): Promise<boolean | null> {
+  return new Promise((resolve) => {
+    const overlay = document.createElement('div');
+    overlay.className = 'pin-overlay';
+    const dialog = document.createElement('div');
+    dialog.className = 'pin-dialog image-confirm';
+    const label = document.createElement('p');
+    label.textContent = t('imagesProcessed');
+    dialog.appendChild(label);
+    const list = document.createElement('ul');
+    list.className = 'image-confirm-list';
+    dialog.appendChild(list);
+    const keepLabel = document.createElement('label');
+    keepLabel.className = 'settings-check';
+    const keepToggle = document.createElement('input');
+    keepToggle.type = 'checkbox';
+    keepLabel.appendChild(keepToggle);
+    keepLabel.appendChild(document.createTextNode(t('keepOriginals')));
+    dialog.appendChild(keepLabel);
+
+    function describe(): void {
+      list.innerHTML = '';
+      for (const image of images) {
+        const item = document.createElement('li');
+        const { original, file } = image;
+        const before = `${formatSize(original.size)}${dimensions(
+          image.width,
+          image.height,
+        )}`;
+        let after: string;
+        if (keepToggle.checked) {
+          after = before;
+        } else if (file) {
+          after = `${formatSize(file.size)}${dimensions(
+            image.outputWidth,
+            image.outputHeight,
+          )}`;
+        } else {
+          after = t('imageUnreadable');
+        }
+        item.textContent = `${original.name}: ${before} → ${after}`;
+        list.appendChild(item);
+      }
+    }
+    describe();
+    keepToggle.addEventListener('change', describe);
+
+    const okBtn = document.createElement('button');
+    okBtn.className = 'close-btn';
+    okBtn.textContent = t('addFiles');
+    const cancelBtn = document.createElement('button');
+    cancelBtn.className = 'close-btn';
+    cancelBtn.textContent = t('cancel');
+    okBtn.addEventListener('click', () => {
+      cleanup();
+      resolve(keepToggle.checked);
+    });
+    cancelBtn.addEventListener('click', () => {
+      cleanup();
+      resolve(null);
+    });
+    const buttons = document.createElement('div');
+    buttons.className = 'pin-actions';
+    buttons.appendChild(okBtn);
+    buttons.appendChild(cancelBtn);
+    dialog.appendChild(buttons);
+    overlay.appendChild(dialog);
+    document.body.appendChild(overlay);
+    okBtn.focus();
+    function cleanup() {
+      document.body.removeChild(overlay);
+    }
+  });
+}
+
+function dimensions(width?: number, height?: number): string {
+  return width && height ? ` (${width} × ${height})` : '';
+}
+
+function removeAttachment(
+  snapshot: SafeSnapshot,
+  compartment: SafeContent,
+  attachment: Attachment,
+): void {
+  const remaining = (compartment.attachments ?? []).filter(
+    (other) => other !== attachment,
+  );
+  compartment.attachments = remaining.length > 0 ? remaining : undefined;
+  touch(snapshot);
+  render();
+}
+
+function formatSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  const number = value.toLocaleString(getLang(), {
+    maximumFractionDigits: unit === 0 ? 0 : 1,
+  });
+  return `${number} ${units[unit]}`;
+}
+
+/** Asks for a new secret and its confirmation; null if either fails. */
+async function promptNewSecret(
+  lockType: LockType,
+  prefix: string,
+): Promise<string | null> {
+  const texts = LOCK_TEXTS[lockType];
+  const pin = await promptSecret(lockType, prefix + t(texts.set));
+  if (pin === null || pin === '') return null;
+  if (!isStrongEnough(lockType, pin)) {
+    alert(t(texts.tooShort));
+    return null;
+  }
+  const confirmPin = await promptSecret(lockType, prefix + t(texts.confirm));
+  if (confirmPin === null || confirmPin !== pin) {
+    alert(t(texts.mismatch));
+    return null;
+  }
+  return pin;
+}
+
+function hasContent(content: SafeContent | undefined): boolean {
+  return Boolean(content && (content.text || content.attachments?.length));
+}
+
+/**
+ * Seals a local safe into its two compartments, asking for the decoy PIN
+ * when the decoy holds anything, then for the optional duress PIN. Opened
+ * with the decoy PIN, only the decoy is sealed again, with `pin`.
+ */
+async function closeLocal(
+  snapshot: SafeSnapshot,
+  lockType: LockType,
+  pin: string,
+): Promise<void> {
+  const { main } = snapshot.runtime;
+  let decoyPin: string | undefined;
+  if (!main && hasContent(snapshot.decoy)) {
+    const entered = await promptNewSecret(lockType, `${t('decoyPrefix')}: `);
+    if (entered === null) return;
+    if (entered === pin) {
+      alert(t('decoySameAsPin'));
+      return;
+    }
+    decoyPin = entered;
+  }
+  const duressHash = await promptDuress(
+    lockType,
+    decoyPin === undefined ? [pin] : [pin, decoyPin],
+  );
+  if (duressHash === null) return;
+  const compartments = main
+    ? await resealDecoy(main, snapshot.content, pin)
+    : await sealCompartments(
+        { content: snapshot.content, decoy: snapshot.decoy },
+        pin,
+        decoyPin,
+      );
+  if (!compartments) {
+    alert(t('decoySameAsPin'));
+    return;
+  }
+  showingDecoy.delete(snapshot.id);
+  decoyDrafts.delete(snapshot.id);
+  dispatch(snapshot.id, {
+    type: 'close',
+    duressHash,
+    compartments,
+    now: Date.now(),
+  });
+}
+
+/**
+ * Offers an optional duress PIN, which later opens the safe empty. Returns
+ * its hash, undefined when skipped, or null when it couldn't be set.
+ */
+async function promptDuress(
+  lockType: LockType,
+  pins: string[],
+): Promise<string | undefined | null> {
+  const texts = LOCK_TEXTS[lockType];
+  const duress = await promptSecret(lockType, t('setDuress'));
+  if (duress === null || duress === '') return undefined;
+  if (pins.includes(duress)) {
+    alert(t('duressSameAsPin'));
+    return null;
+  }
+  if (!isStrongEnough(lockType, duress)) {
+    alert(t(texts.tooShort));
+    return null;
+  }
+  const confirmDuress = await promptSecret(lockType, t('confirmDuress'));
+  if (confirmDuress !== duress) {
+    alert(t(texts.mismatch));
+    return null;
+  }
+  return hashPin(duress, PIN_KDF_ITERATIONS);
+}
+
+function keyholderName(index: number): string {
+  return t('keyholderN').replace('{n}', String(index + 1));
+}
+
+/** Each keyholder sets their own secret in turn, then the safe closes. */
+async function closeShared(
+  snapshot: SafeSnapshot,
+  lockType: LockType,
+  keyholders: number,
+): Promise<void> {
+  const pins: string[] = [];
+  for (let index = 0; index < keyholders; index += 1) {
+    const pin = await promptNewSecret(lockType, `${keyholderName(index)}: `);
+    if (pin === null) return;
+    pins.push(pin);
+  }
+  const required = Math.min(snapshot.settings.keysRequired ?? 2, keyholders);
+  const shared = await sealShared(snapshot.content, pins, required);
+  dispatch(snapshot.id, { type: 'close', shared, now: Date.now() });
+}
+
+/**
+ * Key shares unsealed so far, per closed cycle of a safe. They live only
+ * in this tab's memory, so each keyholder's PIN never outlasts the page.
+ */
+const enteredShares = new Map<string, Map<number, Uint8Array>>();
+
+function sharesOf(snapshot: SafeSnapshot): Map<number, Uint8Array> {
+  const cycle = `${snapshot.id}:${snapshot.runtime.closedAt}`;
+  let shares = enteredShares.get(cycle);
+  if (!shares) {
+    shares = new Map();
+    enteredShares.set(cycle, shares);
+  }
+  return shares;
+}
+
+async function useKey(
+  snapshot: SafeSnapshot,
+  shared: SharedSeal,
+  keyholder: number,
+  pin: string,
+): Promise<void> {
+  const share = await unsealShare(shared, keyholder, pin).catch(
+    () => undefined,
+  );
+  if (!share) {
+    alert(t(LOCK_TEXTS[snapshot.runtime.lockType ?? 'pin'].wrong));
+    dispatch(snapshot.id, { type: 'wrongPin', now: Date.now(), keyholder });
+    return;
+  }
+  const shares = sharesOf(snapshot);
+  shares.set(keyholder, share);
+  if (shares.size < shared.required) {
+    render();
+    return;
+  }
+  let content: SafeContent;
+  try {
+    content = await unsealShared(shared, [...shares.values()]);
+  } catch {
+    openNotice(t('sharedUnsealFailed'), t('sharedUnsealFailedDescription'));
+    return;
+  }
+  enteredShares.clear();
+  await openUnsealed(snapshot.id, { content });
+}
+
+async function tryUnseal(
+  snapshot: SafeSnapshot,
+  pin: string,
+): Promise<Compartment | undefined> {
+  const { compartments, sealed } = snapshot.runtime;
+  if (compartments) return unsealCompartments(compartments, pin);
+  if (!sealed) {
+    // Safes closed before encryption at rest keep plaintext content.
+    const pinHash = snapshot.runtime.pinHash;
+    if (pinHash === undefined) return undefined;
+    return (await verifyPin(pin, pinHash))
+      ? { content: snapshot.content }
+      : undefined;
+  }
+  try {
+    return { content: await unsealContent(sealed, pin) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Opens a safe with what was unsealed, less the parts that explosions and
+ * wrong PINs destroyed, and tells what was lost.
+ */
+async function openUnsealed(id: string, opened: Compartment): Promise<void> {
+  const damage = findSafe(id)?.runtime.damage;
+  if (!damage) {
+    dispatch(id, { type: 'open', ...opened, now: Date.now() });
+    return;
+  }
+  const [damaged, report] = await applyDamage(opened, damage);
+  dispatch(id, { type: 'open', ...damaged, now: Date.now() });
+  if (findSafe(id)?.runtime.state !== 'open') return;
+  openNotice(
+    t('contentDamaged'),
+    t('damageReport')
+      .replace('{wordsLost}', String(report.wordsLost))
+      .replace('{words}', String(report.words))
+      .replace('{filesLost}', String(report.filesLost))
+      .replace('{files}', String(report.files))
+      .replace('{photos}', String(report.photosDamaged)),
+  );
+}
+
+/**
+ * Proves the PIN to a dead man's switch without opening the safe. A wrong
+ * PIN counts like any other wrong attempt.
+ */
+async function checkIn(snapshot: SafeSnapshot): Promise<void> {
+  const lockType = snapshot.runtime.lockType ?? 'pin';
+  const pin = await promptSecret(lockType, t('checkInPrompt'));
+  if (pin === null || pin === '') return;
+  const current = findSafe(snapshot.id) ?? snapshot;
+  if (current.runtime.state !== 'closed') return;
+  if (isLockedOut(current.runtime, Date.now())) return;
+  if (current.hostedId) {
+    const response = await syncHosted(
+      current.id,
+      (hostedId) => checkInHostedSafe(hostedId, pin),
+      false,
+      'checkIn',
+    );
+    if (
+      response?.runtime.state === 'closed' &&
+      response.runtime.checkedInAt === current.runtime.checkedInAt
+    ) {
+      alert(t(LOCK_TEXTS[lockType].wrong));
+    }
+    return;
+  }
+  if (await tryUnseal(current, pin)) {
+    dispatch(current.id, { type: 'checkIn', now: Date.now() });
+  } else {
+    alert(t(LOCK_TEXTS[lockType].wrong));
+    dispatch(current.id, { type: 'wrongPin', now: Date.now() });
+  }
+}
+
+async function attemptHosted(
+  snapshot: SafeSnapshot,
+  pin: string,
+): Promise<void> {
+  const hostedId = snapshot.hostedId;
+  if (!hostedId) return;
+  const response = await requestHosted(() => attemptHostedSafe(hostedId, pin));
+  if (!response) return;
+  if (response.sealed) {
+    let content: SafeContent;
+    try {
+      content = await unsealContent(response.sealed, pin);
+    } catch {
+      // Opening it empty would pass off the lost contents as none at all.
+      openNotice(t('hostedUnsealFailed'), t('hostedUnsealFailedDescription'));
+      return;
+    }
+    dispatch(snapshot.id, { type: 'open', content, now: Date.now() });
+    return;
+  }
+  // The Worker may have opened it for someone else; still a wrong PIN here.
+  if (response.runtime.state !== 'destroyed') {
+    alert(t(LOCK_TEXTS[snapshot.runtime.lockType ?? 'pin'].wrong));
+  }
+  dispatch(snapshot.id, {
+    type: 'sync',
+    runtime: response.runtime,
+    trigger: 'wrongPin',
+  });
+}
+
+function renderClosed(snapshot: SafeSnapshot): HTMLElement {
   const panel = document.createElement('div');
   panel.className = 'safe-panel';
+  panel.appendChild(renderNavIcons(snapshot));
 
   const icon = document.createElement('img');
   icon.src = '/safe.webp';
   icon.alt = '';
   icon.className = 'safe-icon';
   panel.appendChild(icon);
+  panel.appendChild(renderSafeName(snapshot));
 
   const state = document.createElement('p');
   state.className = 'safe-state safe-state--closed';
@@ -822,70 +3136,183 @@ function renderClosed(): HTMLElement {
     panel.appendChild(survived);
   }
 
-  const label = document.createElement('label');
-  label.textContent = t('enterPin');
-  label.className = 'closed-info';
-  const input = document.createElement('input');
-  input.type = 'password';
-  input.inputMode = 'numeric';
-  input.pattern = '\\d*';
-  input.className = 'pin-input';
-  input.addEventListener('input', () => {
-    input.value = input.value.replace(/\D/g, '');
-  });
+  const damage = snapshot.runtime.damage;
+  if (damage) {
+    const damaged = document.createElement('p');
+    damaged.className = 'closed-info damage-info';
+    damaged.textContent = t('contentDamagedShare').replace(
+      '{percent}',
+      String(Math.max(1, Math.round(damage.share * 100))),
+    );
+    panel.appendChild(damaged);
+  }
+
+  const lockType = snapshot.runtime.lockType ?? 'pin';
+  const texts = LOCK_TEXTS[lockType];
+  const { shared } = snapshot.runtime;
+  const shares = shared ? sharesOf(snapshot) : undefined;
+  const keyholderSelect = document.createElement('select');
+  if (shared && shares) {
+    const progress = document.createElement('p');
+    progress.className = 'closed-info keys-progress';
+    progress.textContent = t('keysEntered')
+      .replace('{entered}', String(shares.size))
+      .replace('{required}', String(shared.required));
+    panel.appendChild(progress);
+    shared.keyholders.forEach((_, index) => {
+      if (shares.has(index)) return;
+      const opt = document.createElement('option');
+      opt.value = String(index);
+      opt.textContent = keyholderName(index);
+      keyholderSelect.appendChild(opt);
+    });
+    const pickerLabel = document.createElement('label');
+    pickerLabel.className = 'closed-info';
+    pickerLabel.textContent = t('keyholder');
+    pickerLabel.appendChild(keyholderSelect);
+    panel.appendChild(pickerLabel);
+  }
   const openBtn = document.createElement('button');
-  input.addEventListener('keydown', (e) => {
-    if (e.key === 'Enter') openBtn.click();
-  });
-  label.appendChild(input);
+  const entry = createLockEntry(lockType, t(texts.enter), () =>
+    openBtn.click(),
+  );
+  // Only a text field may sit inside a <label>; clicks there would press
+  // the first pattern dot or dial button.
+  const isField = entry.element instanceof HTMLInputElement;
+  const label = document.createElement(isField ? 'label' : 'div');
+  label.textContent = t(texts.enter);
+  label.className = 'closed-info';
+  label.appendChild(entry.element);
   panel.appendChild(label);
 
-  if (snapshot.settings.pinAttemptsLimit !== undefined) {
-    const remaining =
-      snapshot.settings.pinAttemptsLimit - snapshot.runtime.attemptsMade;
+  const limit = snapshot.settings.pinAttemptsLimit;
+  if (limit !== undefined) {
     const attempts = document.createElement('p');
     attempts.className = 'closed-info';
-    attempts.textContent = `${t('attemptsRemaining')}: ${remaining}`;
+    const perKeyholder =
+      shared !== undefined && snapshot.settings.attemptsScope === 'keyholder';
+    const showRemaining = () => {
+      const made = perKeyholder
+        ? shared.keyholders[Number(keyholderSelect.value)].attemptsMade
+        : snapshot.runtime.attemptsMade;
+      attempts.textContent = `${t('attemptsRemaining')}: ${limit - made}`;
+    };
+    showRemaining();
+    keyholderSelect.addEventListener('change', showRemaining);
     panel.appendChild(attempts);
   }
 
   if (snapshot.runtime.destructAt !== undefined) {
     const timer = document.createElement('p');
     timer.className = 'closed-info';
-    timer.dataset.countdown = 'true';
+    timer.dataset.countdown = snapshot.id;
     updateCountdownElement(timer);
     panel.appendChild(timer);
   }
 
+  const { checkedInAt } = snapshot.runtime;
+  if (checkedInAt !== undefined && snapshot.runtime.destructAt !== undefined) {
+    const lastCheckIn = document.createElement('p');
+    lastCheckIn.className = 'closed-info';
+    const at = formatJournalTime(checkedInAt);
+    lastCheckIn.textContent = `${t('lastCheckIn')}: ${at}`;
+    panel.appendChild(lastCheckIn);
+  }
+
+  const checkInBtn = document.createElement('button');
+  if (isTimeLocked(snapshot.runtime, Date.now())) {
+    const capsule = document.createElement('p');
+    capsule.className = 'closed-info lockout-info';
+    capsule.dataset.unlock = snapshot.id;
+    updateUnlockElement(capsule);
+    panel.appendChild(capsule);
+    entry.setDisabled(true);
+    openBtn.disabled = true;
+    checkInBtn.disabled = true;
+  }
+
+  if (isLockedOut(snapshot.runtime, Date.now())) {
+    const lockout = document.createElement('p');
+    lockout.className = 'closed-info lockout-info';
+    lockout.dataset.lockout = snapshot.id;
+    updateLockoutElement(lockout);
+    panel.appendChild(lockout);
+    entry.setDisabled(true);
+    openBtn.disabled = true;
+    checkInBtn.disabled = true;
+  }
+
   openBtn.className = 'close-btn';
-  openBtn.textContent = t('openSafe');
+  openBtn.textContent = shared ? t('useKey') : t('openSafe');
   openBtn.addEventListener('click', async () => {
-    const pin = input.value;
+    const pin = entry.value();
     if (!pin) return;
-    const pinHash = await hashPin(pin);
-    if (pinHash === snapshot.runtime.pinHash) {
-      dispatch({ type: 'open' });
+    const current = findSafe(snapshot.id) ?? snapshot;
+    if (isLockedOut(current.runtime, Date.now())) return;
+    if (isTimeLocked(current.runtime, Date.now())) return;
+    if (shared) {
+      await useKey(snapshot, shared, Number(keyholderSelect.value), pin);
+      return;
+    }
+    if (snapshot.hostedId) {
+      await attemptHosted(snapshot, pin);
+      return;
+    }
+    // Both checks always run, so a duress PIN takes as long as the real one.
+    const duressHash = snapshot.runtime.duressHash;
+    const [opened, duress] = await Promise.all([
+      tryUnseal(snapshot, pin),
+      duressHash !== undefined ? verifyPin(pin, duressHash) : false,
+    ]);
+    if (opened) {
+      await openUnsealed(snapshot.id, opened);
+    } else if (duress) {
+      dispatch(snapshot.id, { type: 'duress', now: Date.now() });
     } else {
-      alert(t('wrongPin'));
-      dispatch({ type: 'wrongPin' });
+      alert(t(texts.wrong));
+      dispatch(snapshot.id, { type: 'wrongPin', now: Date.now() });
     }
   });
   panel.appendChild(openBtn);
 
+  if (
+    snapshot.settings.deadManSwitch &&
+    snapshot.runtime.destructAt !== undefined &&
+    !shared
+  ) {
+    checkInBtn.className = 'close-btn';
+    checkInBtn.textContent = t('checkIn');
+    checkInBtn.addEventListener('click', () => checkIn(snapshot));
+    panel.appendChild(checkInBtn);
+  }
+
+  if (snapshot.runtime.sealed || snapshot.runtime.compartments) {
+    const shareBtn = document.createElement('button');
+    shareBtn.className = 'close-btn';
+    shareBtn.textContent = t('shareSafe');
+    shareBtn.addEventListener('click', () => openShare(snapshot));
+    panel.appendChild(shareBtn);
+  }
+
   const blowBtn = document.createElement('button');
   blowBtn.className = 'close-btn danger-btn';
   blowBtn.textContent = t('blowSafe');
   blowBtn.addEventListener('click', () => {
-    dispatch({ type: 'explode' });
+    if (snapshot.hostedId) {
+      syncHosted(snapshot.id, explodeHostedSafe, false, 'explode');
+      return;
+    }
+    dispatch(snapshot.id, { type: 'explode' });
   });
   panel.appendChild(blowBtn);
 
   return panel;
 }
 
-function renderDestroyed(): HTMLElement {
+function renderDestroyed(snapshot: SafeSnapshot): HTMLElement {
   const panel = document.createElement('div');
   panel.className = 'safe-panel destroyed-panel';
+  panel.appendChild(renderNavIcons(snapshot));
 
   const emoji = document.createElement('div');
   emoji.className = 'destroyed-emoji';
@@ -906,22 +3333,111 @@ function renderDestroyed(): HTMLElement {
   newSafeBtn.className = 'close-btn';
   newSafeBtn.textContent = t('startNewSafe');
   newSafeBtn.addEventListener('click', () => {
-    dispatch({ type: 'startNew' });
+    startNewSafe(snapshot);
   });
   panel.appendChild(newSafeBtn);
 
   return panel;
 }
 
-scheduleTimer();
+function tamperPolicy(snapshot: SafeSnapshot): TamperPolicy {
+  return snapshot.settings.tamperPolicy ?? 'refuse';
+}
+
+/**
+ * Applies each safe's tamper policy to the loaded safes that were edited
+ * outside the app: refused ones are quarantined, the rest get a `tamper`
+ * event. Safes migrated from before integrity tags are signed as they are.
+ */
+async function checkIntegrity(): Promise<void> {
+  const refused: string[] = [];
+  const handled: string[] = [];
+  for (const { id } of loaded.collection?.safes ?? []) {
+    const snapshot = findSafe(id);
+    if (!snapshot || snapshot.hostedId) continue;
+    if (loaded.unsigned.includes(id)) {
+      await sign(id);
+      continue;
+    }
+    if (await isIntact(snapshot)) continue;
+    if (tamperPolicy(snapshot) === 'refuse') {
+      refused.push(safeName(snapshot));
+      await quarantineSafe(snapshot, 'integrity check failed');
+      safes = safes.filter((safe) => safe.id !== id);
+      deleted.push(id);
+      if (activeId === id) activeId = undefined;
+      persist();
+      scheduleTimers();
+      render();
+    } else {
+      handled.push(safeName(snapshot));
+      dispatch(id, { type: 'tamper', now: Date.now() });
+    }
+  }
+  const messages: string[] = [];
+  if (refused.length > 0) {
+    messages.push(`${t('tamperRefusedDescription')} ${refused.join(', ')}.`);
+  }
+  if (handled.length > 0) {
+    messages.push(`${t('tamperHandledDescription')} ${handled.join(', ')}.`);
+  }
+  if (messages.length > 0) {
+    openNotice(t('tamperDetected'), messages.join(' '));
+  }
+}
+
+function reportLoadProblems(): void {
+  const messages: string[] = [];
+  const repaired = safes.filter(({ id }) => loaded.repaired.includes(id));
+  if (repaired.length > 0) {
+    const names = repaired.map((safe) => safeName(safe)).join(', ');
+    messages.push(`${t('storageRepairedDescription')} ${names}.`);
+  }
+  if (loaded.quarantined > 0) {
+    messages.push(
+      `${t('storageQuarantinedDescription')} ${loaded.quarantined}.`,
+    );
+  }
+  if (messages.length > 0) {
+    openNotice(t('storageProblems'), messages.join(' '));
+  }
+  if (loaded.storage === 'memory') {
+    openNotice(t('storageMemory'), t('storageMemoryDescription'));
+  }
+}
+
+scheduleTimers();
 render();
+reportLoadProblems();
+checkIntegrity().catch(() => {
+  openNotice(t('storageFailed'), t('storageFailedDescription'));
+});
+importShareLink().catch(() => {
+  openNotice(t('shareLinkInvalid'), t('shareLinkInvalidDescription'));
+});
+for (const { id } of safes.filter((safe) => safe.hostedId)) {
+  syncHosted(id, fetchHostedSafe, true);
+}
 
 window.addEventListener('visibilitychange', () => {
   if (document.visibilityState === 'visible') {
-    dispatch({ type: 'tick', now: Date.now() });
+    tickAll();
   }
 });
 
 window.addEventListener('focus', () => {
-  dispatch({ type: 'tick', now: Date.now() });
+  tickAll();
+});
+
+watchSafes(absorbStored);
+void registerServiceWorker();
+
+// Audio may only start from a user gesture; later sounds reuse it.
+window.addEventListener('pointerdown', primeSound, { once: true });
+window.addEventListener('keydown', primeSound, { once: true });
+
+window.addEventListener('hashchange', () => {
+  importShareLink().catch(() => {
+    openNotice(t('shareLinkInvalid'), t('shareLinkInvalidDescription'));
+  });
 });
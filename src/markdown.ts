@@ -0,0 +1,400 @@
+/**
+ * A small Markdown renderer for notes kept in a safe. It builds DOM nodes
+ * and only ever assigns text to them, never HTML, so nothing a note holds
+ * can inject markup or script. Links may only point to http(s) and mailto
+ * addresses, and images are shown as their alt text rather than fetched.
+ */
+
+export interface RenderOptions {
+  /** Called with the source line of a task whose checkbox was clicked. */
+  onToggleTask: (line: number) => void;
+}
+
+export type MarkdownAction =
+  | 'bold'
+  | 'italic'
+  | 'heading'
+  | 'list'
+  | 'task'
+  | 'code'
+  | 'link'
+  | 'table';
+
+export interface Edit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+function element<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  parent: Node,
+): HTMLElementTagNameMap[K] {
+  const node = document.createElement(tag);
+  parent.appendChild(node);
+  return node;
+}
+
+function safeUrl(url: string): string | undefined {
+  try {
+    const parsed = new URL(url);
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isBlockStart(line: string): boolean {
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    QUOTE.test(line) ||
+    LIST_ITEM.test(line)
+  );
+}
+
+function renderInline(text: string, parent: Node): void {
+  let plain = '';
+  const flush = () => {
+    if (plain) parent.appendChild(document.createTextNode(plain));
+    plain = '';
+  };
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const before = i > 0 ? text[i - 1] : ' ';
+    let match: RegExpExecArray | null;
+    if (rest[0] === '\\' && /^[\\`*_{}[\]()#+\-.!|~>]/.test(rest.slice(1))) {
+      plain += rest[1];
+      i += 2;
+    } else if (rest[0] === '\n') {
+      flush();
+      element('br', parent);
+      i += 1;
+    } else if ((match = /^(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/.exec(rest))) {
+      flush();
+      element('code', parent).textContent = match[2];
+      i += match[0].length;
+    } else if ((match = /^!\[([^\]]*)\]\((?:[^()]|\([^()]*\))*\)/.exec(rest))) {
+      plain += match[1];
+      i += match[0].length;
+    } else if (
+      (match = /^\[([^\]]+)\]\(\s*<?((?:[^()\s<>]|\([^()\s]*\))*)>?\s*\)/.exec(
+        rest,
+      ))
+    ) {
+      flush();
+      const href = safeUrl(match[2]);
+      if (href) {
+        const link = element('a', parent);
+        link.href = href;
+        link.target = '_blank';
+        link.rel = 'noopener noreferrer';
+        renderInline(match[1], link);
+      } else {
+        renderInline(match[1], parent);
+      }
+      i += match[0].length;
+    } else if (
+      !/\w/.test(before) &&
+      (match = /^<?((?:https?:\/\/|mailto:)[^\s<>]*[^\s<>.,:;"')\]])>?/.exec(
+        rest,
+      ))
+    ) {
+      flush();
+      const href = safeUrl(match[1]);
+      if (href) {
+        const link = element('a', parent);
+        link.href = href;
+        link.target = '_blank';
+        link.rel = 'noopener noreferrer';
+        link.textContent = match[1];
+      } else {
+        plain += match[0];
+      }
+      i += match[0].length;
+    } else if ((match = /^(\*\*|__)(?=\S)([\s\S]*?\S)\1/.exec(rest))) {
+      if (match[1] === '__' && /\w/.test(before)) {
+        plain += rest[0];
+        i += 1;
+        continue;
+      }
+      flush();
+      renderInline(match[2], element('strong', parent));
+      i += match[0].length;
+    } else if ((match = /^~~(?=\S)([\s\S]*?\S)~~/.exec(rest))) {
+      flush();
+      renderInline(match[1], element('del', parent));
+      i += match[0].length;
+    } else if (
+      (match = /^([*_])(?=\S)([\s\S]*?\S)\1(?!\w)/.exec(rest)) &&
+      !(match[1] === '_' && /\w/.test(before))
+    ) {
+      flush();
+      renderInline(match[2], element('em', parent));
+      i += match[0].length;
+    } else {
+      plain += rest[0];
+      i += 1;
+    }
+  }
+  flush();
+}
+
+function splitRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/\|$/, '');
+  // Cells split on pipes that aren't escaped.
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim());
+}
+
+interface Parser {
+  lines: string[];
+  offset: number; // line number of lines[0] in the whole source
+  options: RenderOptions;
+}
+
+function renderList(parser: Parser, start: number, parent: Node): number {
+  const { lines } = parser;
+  const first = LIST_ITEM.exec(lines[start])!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const list = element(ordered ? 'ol' : 'ul', parent);
+  if (ordered && parseInt(first[2], 10) !== 1) {
+    (list as HTMLOListElement).start = parseInt(first[2], 10);
+  }
+  let i = start;
+  while (i < lines.length) {
+    const match = LIST_ITEM.exec(lines[i]);
+    if (!match || match[1].length < indent) break;
+    if (match[1].length > indent) {
+      i = renderList(parser, i, list.lastElementChild ?? list);
+      continue;
+    }
+    if (/\d/.test(match[2]) !== ordered) break;
+    const item = element('li', list);
+    let text = match[3];
+    const task = TASK.exec(text);
+    if (task) {
+      item.className = 'task';
+      const checkbox = element('input', item);
+      checkbox.type = 'checkbox';
+      checkbox.checked = task[1] !== ' ';
+      const line = parser.offset + i;
+      checkbox.addEventListener('change', () =>
+        parser.options.onToggleTask(line),
+      );
+      text = text.slice(task[0].length);
+    }
+    // Lines indented under an item, without a marker, continue its text.
+    i += 1;
+    while (
+      i < lines.length &&
+      lines[i].trim() !== '' &&
+      !LIST_ITEM.test(lines[i]) &&
+      /^\s+/.test(lines[i])
+    ) {
+      text += `\n${lines[i].trim()}`;
+      i += 1;
+    }
+    renderInline(text, item);
+    // A blank line between items keeps the list going.
+    if (
+      lines[i]?.trim() === '' &&
+      LIST_ITEM.exec(lines[i + 1] ?? '')?.[1].length === indent
+    ) {
+      i += 1;
+    }
+  }
+  return i;
+}
+
+function renderBlocks(parser: Parser, parent: Node): void {
+  const { lines } = parser;
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.trim() === '') {
+      i += 1;
+      continue;
+    }
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i += 1;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i += 1;
+      }
+      i += 1;
+      element('code', element('pre', parent)).textContent = code.join('\n');
+      continue;
+    }
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      const tag = `h${level}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+      renderInline(heading[2], element(tag, parent));
+      i += 1;
+      continue;
+    }
+    if (RULE.test(line)) {
+      element('hr', parent);
+      i += 1;
+      continue;
+    }
+    if (QUOTE.test(line)) {
+      const start = i;
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+        i += 1;
+      }
+      renderBlocks(
+        { ...parser, lines: quoted, offset: parser.offset + start },
+        element('blockquote', parent),
+      );
+      continue;
+    }
+    if (LIST_ITEM.test(line)) {
+      i = renderList(parser, i, parent);
+      continue;
+    }
+    if (
+      line.includes('|') &&
+      i + 1 < lines.length &&
+      TABLE_DIVIDER.test(lines[i + 1]) &&
+      lines[i + 1].includes('-')
+    ) {
+      const alignments = splitRow(lines[i + 1]).map((cell) =>
+        cell.endsWith(':')
+          ? cell.startsWith(':')
+            ? 'center'
+            : 'right'
+          : cell.startsWith(':')
+            ? 'left'
+            : '',
+      );
+      const table = element('table', parent);
+      const addRow = (section: Node, row: string, tag: 'th' | 'td') => {
+        const tr = element('tr', section);
+        splitRow(row).forEach((text, column) => {
+          const cell = element(tag, tr);
+          if (alignments[column]) cell.style.textAlign = alignments[column];
+          renderInline(text, cell);
+        });
+      };
+      addRow(element('thead', table), line, 'th');
+      const body = element('tbody', table);
+      i += 2;
+      while (i < lines.length && lines[i].includes('|')) {
+        addRow(body, lines[i], 'td');
+        i += 1;
+      }
+      continue;
+    }
+    const paragraph: string[] = [line];
+    i += 1;
+    while (
+      i < lines.length &&
+      lines[i].trim() !== '' &&
+      !isBlockStart(lines[i])
+    ) {
+      paragraph.push(lines[i]);
+      i += 1;
+    }
+    // Notes keep their line breaks, as in chat messages.
+    renderInline(paragraph.join('\n').trim(), element('p', parent));
+  }
+}
+
+export function renderMarkdown(
+  source: string,
+  options: RenderOptions,
+): DocumentFragment {
+  const fragment = document.createDocumentFragment();
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  renderBlocks({ lines, offset: 0, options }, fragment);
+  return fragment;
+}
+
+/** Ticks or unticks the task on `line` of the source. */
+export function toggleTask(source: string, line: number): string {
+  const lines = source.split('\n');
+  lines[line] = lines[line].replace(
+    /^(\s*(?:>\s?)*\s*(?:[-*+]|\d{1,9}[.)])\s+\[)([ xX])\]/,
+    (_, prefix: string, mark: string) =>
+      `${prefix}${mark === ' ' ? 'x' : ' '}]`,
+  );
+  return lines.join('\n');
+}
+
+const TABLE_TEMPLATE = '| Name | Value |\n| --- | --- |\n|  |  |';
+
+/** Applies a toolbar action to the selected part of the source. */
+export function applyAction(
+  value: string,
+  selectionStart: number,
+  selectionEnd: number,
+  action: MarkdownAction,
+): Edit {
+  const selected = value.slice(selectionStart, selectionEnd);
+  const wrap = (before: string, after: string, placeholder: string): Edit => {
+    const inner = selected || placeholder;
+    return {
+      value:
+        value.slice(0, selectionStart) +
+        before +
+        inner +
+        after +
+        value.slice(selectionEnd),
+      selectionStart: selectionStart + before.length,
+      selectionEnd: selectionStart + before.length + inner.length,
+    };
+  };
+  const prefixLines = (prefix: (index: number) => string): Edit => {
+    const lineStart = value.lastIndexOf('\n', selectionStart - 1) + 1;
+    const block = value.slice(lineStart, selectionEnd);
+    const prefixed = block
+      .split('\n')
+      .map((line, index) => prefix(index) + line)
+      .join('\n');
+    return {
+      value: value.slice(0, lineStart) + prefixed + value.slice(selectionEnd),
+      selectionStart: lineStart,
+      selectionEnd: lineStart + prefixed.length,
+    };
+  };
+  switch (action) {
+    case 'bold':
+      return wrap('**', '**', 'bold');
+    case 'italic':
+      return wrap('_', '_', 'italic');
+    case 'heading':
+      return prefixLines(() => '## ');
+    case 'list':
+      return prefixLines(() => '- ');
+    case 'task':
+      return prefixLines(() => '- [ ] ');
+    case 'code':
+      return selected.includes('\n')
+        ? wrap('```\n', '\n```', '')
+        : wrap('`', '`', 'code');
+    case 'link':
+      return wrap('[', '](https://)', 'link');
+    case 'table': {
+      const before = value.slice(0, selectionStart);
+      const gap = before === '' || before.endsWith('\n\n') ? '' : '\n\n';
+      return wrap(gap, '', TABLE_TEMPLATE);
+    }
+  }
+}
@@ -1,9 +1,33 @@
-import type { SafeSnapshot } from './types';
+import type {
+  Attachment,
+  SafeCollection,
+  SafeContent,
+  SafeRuntime,
+  SafeSnapshot,
+} from './types';
+import { blobToDataUrl, dataUrlToBlob, upgradeContent } from './attachments';
+import { fromBase64, toBase64 } from './encoding';
+import { isLegacyPinHash } from './pin';
+import { validateSnapshot, type Validation } from './validate';
+import { openStorage, type StorageAdapter, type StorageKind } from './storage';
+import { readStats, type Stats } from './stats';
 
-const STORAGE_KEY = 'safe-game:v1';
-const SCHEMA_VERSION = 1;
+// The adapter's layout: the collection lists safe ids, and each safe is an
+// entry of its own so a damaged one can be set aside alone.
+const COLLECTION_KEY = 'collection';
+const QUARANTINE_KEY = 'quarantine';
+const STATS_KEY = 'stats';
+const SAFE_KEY_PREFIX = 'safe:';
+// Before the adapter everything lived in localStorage under these keys.
+const OLD_STORAGE_KEY = 'safe-game:safes';
+const OLD_QUARANTINE_KEY = 'safe-game:quarantine';
+const LEGACY_STORAGE_KEY = 'safe-game:v1';
+const CHANNEL_NAME = 'safe-game';
+const SCHEMA_VERSION = 7;
+// Safes were first stored with an integrity tag in this schema version.
+const SIGNED_SINCE = 6;
 
-type Persisted<T> = {
+export type Persisted<T> = {
   v: number;
   data: T;
 };
@@ -12,42 +36,616 @@ type Migration = (data: unknown) => unknown;
 
 const migrations: Record<number, Migration> = {
   0: (data) => data as SafeSnapshot,
+  // v1 stored bare unsalted SHA-256 hex; tag it so verifyPin can pick the
+  // algorithm. The next close replaces it with a salted hash.
+  1: (data) => {
+    const snapshot = data as SafeSnapshot;
+    const pinHash = snapshot.runtime.pinHash;
+    if (pinHash === undefined || !isLegacyPinHash(pinHash)) return snapshot;
+    return {
+      ...snapshot,
+      runtime: { ...snapshot.runtime, pinHash: `sha256$${pinHash}` },
+    };
+  },
+  2: (data) => {
+    const snapshot = data as SafeSnapshot;
+    return { ...snapshot, name: snapshot.name ?? '' };
+  },
+  3: (data) => ({ ...(data as SafeSnapshot), journal: [] }),
+  4: (data) => ({ ...(data as SafeSnapshot), revision: 0, updatedAt: 0 }),
+  // Integrity tags came in v6; older safes are reported as unsigned by
+  // loadSafes and importSnapshot, never marked as trusted in storage.
+  5: (data) => data,
+  // v6 content held at most one image; it becomes the first attachment.
+  6: (data) => {
+    const snapshot = data as SafeSnapshot;
+    const upgrade = (content: SafeContent | undefined) =>
+      typeof content === 'object' && content !== null
+        ? upgradeContent(content)
+        : content;
+    return {
+      ...snapshot,
+      content: upgrade(snapshot.content),
+      decoy: upgrade(snapshot.decoy),
+    };
+  },
 };
 
-export function loadSnapshot(): SafeSnapshot | undefined {
-  const raw = localStorage.getItem(STORAGE_KEY);
-  if (!raw) return undefined;
+function migrateSnapshot(version: number, data: unknown): unknown {
+  while (version < SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) return undefined;
+    data = migrate(data);
+    version += 1;
+  }
+  return data;
+}
+
+/**
+ * Migrates and validates one stored safe. Migrations assume the shape of
+ * their schema version, so a damaged entry may make them throw; that is
+ * reported like any other validation failure.
+ */
+function readSnapshot(version: number, data: unknown): Validation {
+  let migrated: unknown;
   try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const parsed = JSON.parse(raw) as any;
-    let version: number;
-    let data: unknown;
+    migrated = migrateSnapshot(version, data);
+  } catch {
+    return { ok: false, error: `cannot migrate from schema v${version}` };
+  }
+  if (migrated === undefined) {
+    return { ok: false, error: `unknown schema v${version}` };
+  }
+  return validateSnapshot(migrated);
+}
+
+export function wrapSnapshot(snapshot: SafeSnapshot): Persisted<SafeSnapshot> {
+  return { v: SCHEMA_VERSION, data: snapshot };
+}
+
+/**
+ * Reads a single safe from a `{ v, data }` envelope produced by
+ * wrapSnapshot, possibly by an older version of the app.
+ */
+export function unwrapSnapshot(value: unknown): SafeSnapshot | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { v, data } = value as Partial<Persisted<unknown>>;
+  if (typeof v !== 'number' || v > SCHEMA_VERSION) return undefined;
+  const result = readSnapshot(v, data);
+  return result.ok ? result.snapshot : undefined;
+}
+
+/** Serializes a safe into the contents of a `.sejf` backup file. */
+export function exportSnapshot(snapshot: SafeSnapshot): string {
+  return JSON.stringify(wrapSnapshot(snapshot), null, 2);
+}
+
+export interface ImportedSnapshot {
+  snapshot: SafeSnapshot;
+  unsigned: boolean; // written before safes carried an integrity tag
+}
+
+/**
+ * Reads a `.sejf` backup file, migrating it when it was written by an older
+ * schema. Returns undefined when the file isn't a safe.
+ */
+export function importSnapshot(text: string): ImportedSnapshot | undefined {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  const snapshot = unwrapSnapshot(value);
+  if (!snapshot) return undefined;
+  const { v } = value as Persisted<unknown>;
+  return { snapshot, unsigned: v < SIGNED_SINCE };
+}
+
+export interface LoadResult {
+  collection?: SafeCollection;
+  storage: StorageKind;
+  repaired: string[]; // ids of safes that were fixed while loading
+  unsigned: string[]; // ids of safes migrated from before integrity tags
+  quarantined: number; // entries moved under QUARANTINE_KEY
+}
+
+/** What the adapter stores under COLLECTION_KEY. */
+interface StoredCollection {
+  activeId?: string;
+  ids: string[];
+  deleted?: string[];
+}
+
+let storage: Promise<StorageAdapter> | undefined;
+
+function adapter(): Promise<StorageAdapter> {
+  storage ??= openStorage();
+  return storage;
+}
+
+const channel =
+  typeof BroadcastChannel === 'undefined'
+    ? undefined
+    : new BroadcastChannel(CHANNEL_NAME);
+
+function safeKey(id: string): string {
+  return SAFE_KEY_PREFIX + id;
+}
 
-    if (typeof parsed.v === 'number' && 'data' in parsed) {
-      version = parsed.v;
-      data = parsed.data;
-    } else {
-      version = 0;
-      data = parsed;
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Blobs made for attachments already saved, so each is only encoded once.
+const packed = new WeakMap<Attachment, Blob>();
+
+/**
+ * Where the adapter takes Blobs, attachments are stored as one in place of
+ * their data URL, saving a third of the space and the string handling.
+ */
+function packContent(content: SafeContent | undefined): unknown {
+  if (!content?.attachments) return content;
+  const attachments = content.attachments.map((attachment) => {
+    let blob = packed.get(attachment);
+    if (!blob) {
+      blob = dataUrlToBlob(attachment.dataUrl);
+      if (!blob) return attachment;
+      packed.set(attachment, blob);
     }
+    const { name, type, size } = attachment;
+    return { name, type, size, blob };
+  });
+  return { ...content, attachments };
+}
 
-    while (version < SCHEMA_VERSION) {
-      const migrate = migrations[version];
-      if (!migrate) return undefined;
-      data = migrate(data);
-      version += 1;
+// Likewise for ciphertext, keyed by the sealed object that holds it.
+const packedCiphertext = new WeakMap<object, Blob>();
+
+/**
+ * Ciphertext is stored as raw bytes rather than base64. Sealed attachments
+ * are already base64 inside it, so encoding it again would keep a closed
+ * safe's files at almost twice their size.
+ */
+function packSealed<T extends { data: string }>(sealed: T): unknown {
+  const { data, ...rest } = sealed;
+  let blob = packedCiphertext.get(sealed);
+  if (!blob) {
+    try {
+      blob = new Blob([fromBase64(data)]);
+    } catch {
+      return sealed;
     }
+    packedCiphertext.set(sealed, blob);
+  }
+  return { ...rest, blob };
+}
+
+function packRuntime(runtime: SafeRuntime): unknown {
+  const { sealed, compartments, shared, main } = runtime;
+  return {
+    ...runtime,
+    sealed: sealed && packSealed(sealed),
+    main: main && packSealed(main),
+    compartments: compartments?.map((compartment) => packSealed(compartment)),
+    shared: shared && packSealed(shared),
+  };
+}
+
+function packSnapshot(snapshot: SafeSnapshot): unknown {
+  return {
+    ...snapshot,
+    content: packContent(snapshot.content),
+    decoy: packContent(snapshot.decoy),
+    runtime: packRuntime(snapshot.runtime),
+  };
+}
+
+/**
+ * Turns stored Blobs back into data URLs. An attachment whose Blob can't
+ * be read keeps no data URL, so validation drops it as damaged.
+ */
+async function unpackContent(content: unknown): Promise<unknown> {
+  if (!isRecord(content) || !Array.isArray(content.attachments)) {
+    return content;
+  }
+  const attachments = await Promise.all(
+    content.attachments.map(async (attachment: unknown) => {
+      if (!isRecord(attachment) || !(attachment.blob instanceof Blob)) {
+        return attachment;
+      }
+      const { blob, ...rest } = attachment;
+      try {
+        const unpacked = { ...rest, dataUrl: await blobToDataUrl(blob) };
+        packed.set(unpacked as unknown as Attachment, blob);
+        return unpacked;
+      } catch {
+        return rest;
+      }
+    }),
+  );
+  return { ...content, attachments };
+}
 
-    return data as SafeSnapshot;
+/**
+ * Turns stored ciphertext back into base64. Sealed content whose Blob
+ * can't be read is left without data, so validation sets the safe aside.
+ */
+async function unpackSealed(sealed: unknown): Promise<unknown> {
+  if (!isRecord(sealed) || !(sealed.blob instanceof Blob)) return sealed;
+  const { blob, ...rest } = sealed;
+  try {
+    const data = toBase64(new Uint8Array(await blob.arrayBuffer()));
+    const unpacked = { ...rest, data };
+    packedCiphertext.set(unpacked, blob);
+    return unpacked;
   } catch {
+    return rest;
+  }
+}
+
+async function unpackRuntime(runtime: unknown): Promise<unknown> {
+  if (!isRecord(runtime)) return runtime;
+  const { compartments } = runtime;
+  return {
+    ...runtime,
+    sealed: await unpackSealed(runtime.sealed),
+    main: await unpackSealed(runtime.main),
+    compartments: Array.isArray(compartments)
+      ? await Promise.all(compartments.map(unpackSealed))
+      : compartments,
+    shared: await unpackSealed(runtime.shared),
+  };
+}
+
+async function unpackSnapshot(data: unknown): Promise<unknown> {
+  if (!isRecord(data)) return data;
+  return {
+    ...data,
+    content: await unpackContent(data.content),
+    decoy: await unpackContent(data.decoy),
+    runtime: await unpackRuntime(data.runtime),
+  };
+}
+
+/**
+ * Sets an unreadable entry aside instead of letting the next save
+ * overwrite it, so it can still be recovered by hand. `key` is the entry
+ * it came from, removed in the same write.
+ */
+async function quarantine(
+  raw: unknown,
+  reason: string,
+  key?: string,
+): Promise<void> {
+  const store = await adapter();
+  const existing = await store.get(QUARANTINE_KEY).catch(() => undefined);
+  // A damaged quarantine is replaced rather than lost track of.
+  const entries = Array.isArray(existing) ? existing : [];
+  entries.push({ at: Date.now(), reason, raw });
+  const changes: Record<string, unknown> = { [QUARANTINE_KEY]: entries };
+  if (key !== undefined) changes[key] = undefined;
+  await store.set(changes);
+}
+
+/** Sets aside a safe that loaded fine but must not be used as it is. */
+export async function quarantineSafe(
+  snapshot: SafeSnapshot,
+  reason: string,
+): Promise<void> {
+  await quarantine(wrapSnapshot(snapshot), reason);
+}
+
+async function collect(
+  result: LoadResult,
+  version: number,
+  data: unknown,
+  key?: string,
+): Promise<SafeSnapshot | undefined> {
+  const read = readSnapshot(version, data);
+  if (!read.ok) {
+    await quarantine(data, read.error, key);
+    result.quarantined += 1;
     return undefined;
   }
+  if (read.repairs.length > 0) result.repaired.push(read.snapshot.id);
+  if (version < SIGNED_SINCE) result.unsigned.push(read.snapshot.id);
+  return read.snapshot;
 }
 
-export function saveSnapshot(snapshot: SafeSnapshot): void {
-  const payload: Persisted<SafeSnapshot> = {
+function readOldStorage(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    // Storage disabled altogether; there is nothing old to move.
+    return null;
+  }
+}
+
+/**
+ * Reads what was saved to localStorage before the storage adapter: a
+ * collection under OLD_STORAGE_KEY or, from before collections, a single
+ * safe under LEGACY_STORAGE_KEY.
+ */
+async function loadOldStorage(
+  result: LoadResult,
+): Promise<SafeCollection | undefined> {
+  const raw = readOldStorage(OLD_STORAGE_KEY);
+  if (raw) {
+    let parsed: Partial<Persisted<Partial<SafeCollection>>>;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      parsed = {};
+    }
+    const { v, data } = parsed;
+    if (
+      typeof v !== 'number' ||
+      v > SCHEMA_VERSION ||
+      !Array.isArray(data?.safes)
+    ) {
+      await quarantine(raw, 'unreadable safe collection');
+      result.quarantined += 1;
+      return undefined;
+    }
+    const safes: SafeSnapshot[] = [];
+    for (const entry of data.safes) {
+      const snapshot = await collect(result, v, entry);
+      if (snapshot) safes.push(snapshot);
+    }
+    const activeId =
+      typeof data.activeId === 'string' ? data.activeId : undefined;
+    return { activeId, safes, deleted: readIds(data.deleted) };
+  }
+
+  const legacyRaw = readOldStorage(LEGACY_STORAGE_KEY);
+  if (!legacyRaw) return undefined;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(legacyRaw);
+  } catch {
+    await quarantine(legacyRaw, 'not JSON');
+    result.quarantined += 1;
+    return undefined;
+  }
+  const envelope = parsed as Partial<Persisted<unknown>> | null;
+  const legacy =
+    typeof envelope?.v === 'number' && 'data' in envelope
+      ? await collect(result, envelope.v, envelope.data)
+      : await collect(result, 0, parsed);
+  return legacy && { activeId: legacy.id, safes: [legacy] };
+}
+
+/**
+ * Moves localStorage data from before the storage adapter into it. The
+ * old keys are only removed once their safes are safely written.
+ */
+async function migrateOldStorage(
+  result: LoadResult,
+): Promise<SafeCollection | undefined> {
+  const store = await adapter();
+  const collection = await loadOldStorage(result);
+  if (collection) await writeCollection(collection);
+  const oldQuarantine = readOldStorage(OLD_QUARANTINE_KEY);
+  // The localStorage adapter keeps its quarantine under the same key.
+  if (oldQuarantine && store.kind !== 'localStorage') {
+    let entries: unknown;
+    try {
+      entries = JSON.parse(oldQuarantine);
+    } catch {
+      entries = [oldQuarantine];
+    }
+    const existing = await store.get(QUARANTINE_KEY);
+    await store.set({
+      [QUARANTINE_KEY]: [
+        ...(Array.isArray(existing) ? existing : []),
+        ...(Array.isArray(entries) ? entries : [entries]),
+      ],
+    });
+    localStorage.removeItem(OLD_QUARANTINE_KEY);
+  }
+  if (readOldStorage(OLD_STORAGE_KEY) !== null) {
+    localStorage.removeItem(OLD_STORAGE_KEY);
+  }
+  if (readOldStorage(LEGACY_STORAGE_KEY) !== null) {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+  return collection;
+}
+
+/**
+ * Loads every stored safe. Safes are migrated and validated one by one;
+ * safes saved to localStorage by earlier versions are moved into the
+ * storage adapter first. Safes that can't be read are quarantined, never
+ * dropped silently.
+ */
+export async function loadSafes(): Promise<LoadResult> {
+  const store = await adapter();
+  const result: LoadResult = {
+    storage: store.kind,
+    repaired: [],
+    unsigned: [],
+    quarantined: 0,
+  };
+  const stored = await store.get(COLLECTION_KEY);
+  if (stored === undefined) {
+    result.collection = await migrateOldStorage(result);
+    return result;
+  }
+
+  const { v, data } = (isRecord(stored) ? stored : {}) as Partial<
+    Persisted<Partial<StoredCollection>>
+  >;
+  if (
+    typeof v !== 'number' ||
+    v > SCHEMA_VERSION ||
+    !Array.isArray(data?.ids)
+  ) {
+    await quarantine(stored, 'unreadable safe collection', COLLECTION_KEY);
+    result.quarantined += 1;
+    return result;
+  }
+  const safes: SafeSnapshot[] = [];
+  for (const id of readIds(data.ids)) {
+    const key = safeKey(id);
+    const entry = await store.get(key);
+    // Set aside by an earlier load, or deleted by another tab meanwhile.
+    if (entry === undefined) continue;
+    const { v: version, data: safe } = (
+      isRecord(entry) ? entry : {}
+    ) as Partial<Persisted<unknown>>;
+    if (typeof version !== 'number' || version > SCHEMA_VERSION) {
+      await quarantine(entry, 'unreadable safe', key);
+      result.quarantined += 1;
+      continue;
+    }
+    const snapshot = await collect(
+      result,
+      version,
+      await unpackSnapshot(safe),
+      key,
+    );
+    if (snapshot) safes.push(snapshot);
+  }
+  const activeId =
+    typeof data.activeId === 'string' ? data.activeId : undefined;
+  result.collection = { activeId, safes, deleted: readIds(data.deleted) };
+  return result;
+}
+
+function readIds(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((id): id is string => typeof id === 'string')
+    : [];
+}
+
+/** Reads a collection another tab broadcast after saving it. */
+function readBroadcast(value: unknown): SafeCollection | undefined {
+  const { v, data } = (isRecord(value) ? value : {}) as Partial<
+    Persisted<Partial<SafeCollection>>
+  >;
+  if (
+    typeof v !== 'number' ||
+    v > SCHEMA_VERSION ||
+    !Array.isArray(data?.safes)
+  ) {
+    return undefined;
+  }
+  const safes: SafeSnapshot[] = [];
+  for (const entry of data.safes) {
+    const read = readSnapshot(v, entry);
+    if (read.ok) safes.push(read.snapshot);
+  }
+  return { safes, deleted: readIds(data.deleted) };
+}
+
+/** Calls `listener` with the collection whenever another tab saves it. */
+export function watchSafes(listener: (stored: SafeCollection) => void): void {
+  channel?.addEventListener('message', (event: MessageEvent) => {
+    const stored = readBroadcast(event.data);
+    if (stored) listener(stored);
+  });
+}
+
+async function writeCollection(collection: SafeCollection): Promise<void> {
+  const store = await adapter();
+  const entries: Record<string, unknown> = {};
+  const ids = collection.safes.map((safe) => safe.id);
+  const deleted = collection.deleted ?? [];
+  // Safes only another tab knows about yet stay; deleted ones go.
+  const stored = await store.get(COLLECTION_KEY);
+  const previous = isRecord(stored) && isRecord(stored.data) ? stored.data : {};
+  for (const id of readIds(previous.ids)) {
+    if (ids.includes(id)) continue;
+    if (deleted.includes(id)) {
+      entries[safeKey(id)] = undefined;
+    } else if ((await store.get(safeKey(id))) !== undefined) {
+      ids.push(id);
+    }
+  }
+  for (const safe of collection.safes) {
+    entries[safeKey(safe.id)] = wrapSnapshot(
+      (store.binary ? packSnapshot(safe) : safe) as SafeSnapshot,
+    );
+  }
+  const data: StoredCollection = {
+    activeId: collection.activeId,
+    ids,
+    deleted,
+  };
+  entries[COLLECTION_KEY] = { v: SCHEMA_VERSION, data };
+  await store.set(entries);
+  const payload: Persisted<SafeCollection> = {
     v: SCHEMA_VERSION,
-    data: snapshot,
+    data: collection,
+  };
+  channel?.postMessage(payload);
+}
+
+interface PendingSave {
+  collection: SafeCollection;
+  settle: { resolve: () => void; reject: (error: unknown) => void }[];
+}
+
+let pending: PendingSave | undefined;
+let saving = false;
+let drained: Promise<void> = Promise.resolve();
+
+/**
+ * Saves the collection. Writes go one at a time; collections saved while
+ * one is under way wait, and only the newest of them is written. Rejects
+ * with a StorageFullError when the browser's quota is used up.
+ */
+export function saveSafes(collection: SafeCollection): Promise<void> {
+  return new Promise((resolve, reject) => {
+    pending ??= { collection, settle: [] };
+    pending.collection = collection;
+    pending.settle.push({ resolve, reject });
+    if (!saving) drained = drainSaves();
+  });
+}
+
+/** Resolves once every save under way or waiting has been written. */
+export function whenSaved(): Promise<void> {
+  return drained;
+}
+
+async function drainSaves(): Promise<void> {
+  saving = true;
+  while (pending) {
+    const { collection, settle } = pending;
+    pending = undefined;
+    try {
+      await writeCollection(collection);
+      settle.forEach(({ resolve }) => resolve());
+    } catch (error) {
+      settle.forEach(({ reject }) => reject(error));
+    }
+  }
+  saving = false;
+}
+
+export async function loadStats(): Promise<Stats> {
+  const store = await adapter();
+  return readStats(await store.get(STATS_KEY));
+}
+
+/**
+ * Changes the stored statistics. Tabs take turns through a Web Lock where
+ * the browser has them, so none overwrites another's count.
+ */
+export async function updateStats(
+  change: (stats: Stats) => Stats,
+): Promise<void> {
+  const write = async () => {
+    const store = await adapter();
+    const stats = readStats(await store.get(STATS_KEY));
+    const next = change(stats);
+    if (next !== stats) await store.set({ [STATS_KEY]: next });
   };
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    await navigator.locks.request(`${CHANNEL_NAME}:stats`, write);
+  } else {
+    await write();
+  }
 }
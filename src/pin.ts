@@ -1,10 +1,86 @@
-export async function hashPin(pin: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(pin);
+import { fromBase64, toBase64 } from './encoding';
+
+/**
+ * PIN hashes are self-describing strings of `$`-separated fields:
+ *
+ * - `pbkdf2-sha256$<iterations>$<salt>$<digest>` — salted PBKDF2, the
+ *   current format; salt and digest are base64.
+ * - `sha256$<hex>` — unsalted SHA-256 written before schema v2. Only
+ *   verified, never produced.
+ */
+export const PIN_KDF_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const DIGEST_BITS = 256;
+
+async function pbkdf2(
+  pin: string,
+  salt: BufferSource,
+  iterations: number,
+): Promise<Uint8Array> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(pin),
+    'PBKDF2',
+    false,
+    ['deriveBits'],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    DIGEST_BITS,
+  );
+  return new Uint8Array(bits);
+}
+
+async function sha256Hex(pin: string): Promise<string> {
+  const data = new TextEncoder().encode(pin);
   const hashBuffer = await crypto.subtle.digest('SHA-256', data);
   const hashArray = Array.from(new Uint8Array(hashBuffer));
-  const hashHex = hashArray
-    .map((b) => b.toString(16).padStart(2, '0'))
-    .join('');
-  return hashHex;
+  return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function equalStrings(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function hashPin(
+  pin: string,
+  iterations: number = PIN_KDF_ITERATIONS,
+): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const digest = await pbkdf2(pin, salt, iterations);
+  return ['pbkdf2-sha256', iterations, toBase64(salt), toBase64(digest)].join(
+    '$',
+  );
+}
+
+export async function verifyPin(pin: string, stored: string): Promise<boolean> {
+  const [algorithm, ...fields] = stored.split('$');
+  switch (algorithm) {
+    case 'pbkdf2-sha256': {
+      const [iterations, salt, digest] = fields;
+      const rounds = Number(iterations);
+      if (!Number.isInteger(rounds) || rounds < 1 || !salt || !digest) {
+        return false;
+      }
+      const actual = await pbkdf2(pin, fromBase64(salt), rounds);
+      return equalStrings(toBase64(actual), digest);
+    }
+    case 'sha256': {
+      const [digest] = fields;
+      if (!digest) return false;
+      return equalStrings(await sha256Hex(pin), digest);
+    }
+    default:
+      return false;
+  }
+}
+
+export function isLegacyPinHash(stored: string): boolean {
+  return /^[0-9a-f]{64}$/.test(stored);
 }
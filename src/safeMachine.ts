@@ -1,17 +1,118 @@
-import type { Lang, SafeSnapshot } from './types';
+import type {
+  Damage,
+  Lang,
+  LockType,
+  SafeContent,
+  SafeRuntime,
+  SafeSettings,
+  SafeSnapshot,
+  SealedContent,
+  SharedSeal,
+} from './types';
 
 export type SafeEvent =
-  | { type: 'open' }
-  | { type: 'close'; pinHash: string; now: number }
-  | { type: 'wrongPin' }
+  | {
+      type: 'open';
+      content: SafeContent;
+      decoy?: SafeContent;
+      main?: SealedContent; // the decoy PIN opened it, this stays sealed
+      now: number;
+    }
+  | {
+      type: 'close';
+      pinHash?: string;
+      duressHash?: string;
+      sealed?: SealedContent;
+      shared?: SharedSeal; // instead of pinHash and sealed for keyholders
+      compartments?: [SealedContent, SealedContent]; // instead of both, too
+      now: number;
+    }
+  | { type: 'wrongPin'; now: number; keyholder?: number }
+  | { type: 'duress'; now: number }
+  | { type: 'checkIn'; now: number } // the PIN was proven, not used to open
+  | { type: 'lockout'; now: number }
+  | { type: 'unlock' }
   | { type: 'tick'; now: number }
   | { type: 'explode' }
   | { type: 'survive' }
-  | { type: 'startNew' };
+  | { type: 'startNew'; hostedId?: string }
+  | { type: 'configure'; settings: SafeSettings }
+  | { type: 'tamper'; now: number }
+  | {
+      type: 'sync';
+      runtime: SafeRuntime;
+      trigger?: 'wrongPin' | 'explode' | 'checkIn'; // what the client asked
+    };
+
+export const LOCK_TYPES: LockType[] = ['pin', 'passphrase', 'pattern', 'dial'];
+
+/** Cooldowns served one after another, in seconds; the last one repeats. */
+export const LOCKOUT_STEPS = [30, 120, 600, 3600];
+
+/** Whether the safe refuses PIN entry at `now`. */
+export function isLockedOut(runtime: SafeRuntime, now: number): boolean {
+  return runtime.lockedUntil !== undefined && now < runtime.lockedUntil;
+}
 
-export function spawnSafe(language: Lang = 'en'): SafeSnapshot {
+/**
+ * Wrong attempts that count toward pinAttemptsLimit: all of them, or with
+ * the keyholder scope those of the keyholder who failed most often.
+ */
+export function attemptsCounted(
+  runtime: SafeRuntime,
+  settings: SafeSettings,
+): number {
+  if (settings.attemptsScope === 'keyholder' && runtime.shared) {
+    return Math.max(
+      ...runtime.shared.keyholders.map((keyholder) => keyholder.attemptsMade),
+    );
+  }
+  return runtime.attemptsMade;
+}
+
+/**
+ * Whether one step of dispatch survived an explosion. Local safes see the
+ * 'survive' event, so surviving again in the same closed cycle counts too;
+ * hosted ones only see explosionResult change in what the Worker reports.
+ */
+export function survivedBy(
+  event: SafeEvent,
+  from: SafeRuntime,
+  to: SafeRuntime,
+): boolean {
+  if (event.type === 'survive') return from.state === 'closed';
+  return (
+    from.explosionResult !== 'survived' && to.explosionResult === 'survived'
+  );
+}
+
+/** Each wrong PIN does this share of an explosion's damage. */
+export const WRONG_PIN_DAMAGE = 0.1;
+
+/**
+ * Adds to the damage of a closed safe in damage mode. The seed is drawn
+ * once, so later damage takes more of the same parts, and each round hits
+ * only what earlier ones left.
+ */
+function damaged(
+  runtime: SafeRuntime,
+  share: number,
+  random: () => number,
+): Damage {
+  const seed = runtime.damage?.seed ?? Math.floor(random() * 2 ** 32);
+  const before = runtime.damage?.share ?? 0;
+  return { seed, share: 1 - (1 - before) * (1 - share) };
+}
+
+/** Whether a time capsule is still sealed at `now`. */
+export function isTimeLocked(runtime: SafeRuntime, now: number): boolean {
+  return runtime.unlockAt !== undefined && now < runtime.unlockAt;
+}
+
+export function spawnSafe(language: Lang = 'en', name = ''): SafeSnapshot {
   return {
     id: crypto.randomUUID(),
+    name,
     content: { text: '' },
     settings: {
       language,
@@ -20,11 +121,16 @@ export function spawnSafe(language: Lang = 'en'): SafeSnapshot {
       survivalChanceRemembered: 10,
       autodestructMinutesRemembered: 90,
       pinAttemptsLimitRemembered: 3,
+      lockoutAfterRemembered: 3,
+      tamperPolicy: 'refuse',
     },
     runtime: {
       state: 'open',
       attemptsMade: 0,
     },
+    journal: [],
+    revision: 0,
+    updatedAt: Date.now(),
   };
 }
 
@@ -42,9 +148,33 @@ export function reduce(
   switch (event.type) {
     case 'open':
       if (snapshot.runtime.state !== 'closed') return [snapshot, []];
+      if (isLockedOut(snapshot.runtime, event.now)) return [snapshot, []];
+      if (isTimeLocked(snapshot.runtime, event.now)) return [snapshot, []];
       return [
         {
           ...snapshot,
+          content: event.content,
+          decoy: event.decoy,
+          runtime: {
+            state: 'open',
+            attemptsMade: 0,
+            main: event.main,
+          },
+        },
+        [],
+      ];
+
+    case 'duress':
+      // Indistinguishable from 'open' except that the content is gone; it
+      // skips 'explode', so there is no survival roll and no destruction.
+      if (snapshot.runtime.state !== 'closed') return [snapshot, []];
+      if (isLockedOut(snapshot.runtime, event.now)) return [snapshot, []];
+      if (isTimeLocked(snapshot.runtime, event.now)) return [snapshot, []];
+      return [
+        {
+          ...snapshot,
+          content: { text: '' },
+          decoy: undefined,
           runtime: {
             state: 'open',
             attemptsMade: 0,
@@ -59,15 +189,27 @@ export function reduce(
       const minutes = snapshot.settings.autodestructMinutes;
       const destructAt =
         minutes !== undefined ? closedAt + minutes * 60 * 1000 : undefined;
+      const { unlockAt } = snapshot.settings;
       return [
         {
           ...snapshot,
+          content: { text: '' },
+          decoy: undefined,
           runtime: {
             state: 'closed',
+            lockType: snapshot.settings.lockType,
             pinHash: event.pinHash,
+            duressHash: event.duressHash,
+            sealed: event.sealed,
+            shared: event.shared,
+            compartments: event.compartments,
             attemptsMade: 0,
             closedAt,
             destructAt,
+            unlockAt:
+              unlockAt !== undefined && unlockAt > closedAt
+                ? unlockAt
+                : undefined,
           },
         },
         [],
@@ -76,24 +218,110 @@ export function reduce(
 
     case 'wrongPin': {
       if (snapshot.runtime.state !== 'closed') return [snapshot, []];
+      // A PIN entered during a cooldown or before a time capsule's date
+      // isn't even checked, so it doesn't count either.
+      if (isLockedOut(snapshot.runtime, event.now)) return [snapshot, []];
+      if (isTimeLocked(snapshot.runtime, event.now)) return [snapshot, []];
       const attempts = snapshot.runtime.attemptsMade + 1;
+      const { shared } = snapshot.runtime;
+      const level = snapshot.settings.damageLevel;
       const updated: SafeSnapshot = {
         ...snapshot,
-        runtime: { ...snapshot.runtime, attemptsMade: attempts },
+        runtime: {
+          ...snapshot.runtime,
+          attemptsMade: attempts,
+          damage:
+            level !== undefined
+              ? damaged(
+                  snapshot.runtime,
+                  (level / 100) * WRONG_PIN_DAMAGE,
+                  random,
+                )
+              : snapshot.runtime.damage,
+          shared: shared && {
+            ...shared,
+            keyholders: shared.keyholders.map((keyholder, index) =>
+              index === event.keyholder
+                ? { ...keyholder, attemptsMade: keyholder.attemptsMade + 1 }
+                : keyholder,
+            ),
+          },
+        },
       };
       const limit = snapshot.settings.pinAttemptsLimit;
-      if (limit !== undefined && attempts >= limit) {
+      const counted = attemptsCounted(updated.runtime, snapshot.settings);
+      if (limit !== undefined && counted >= limit) {
         return [updated, [{ type: 'explode' }]];
       }
+      const lockoutAfter = snapshot.settings.lockoutAfter;
+      if (lockoutAfter !== undefined && attempts % lockoutAfter === 0) {
+        return [updated, [{ type: 'lockout', now: event.now }]];
+      }
       return [updated, []];
     }
 
+    case 'checkIn': {
+      // Restarts a dead man's switch; a survived explosion disarmed it.
+      const { runtime, settings } = snapshot;
+      const minutes = settings.autodestructMinutes;
+      if (runtime.state !== 'closed' || !settings.deadManSwitch) {
+        return [snapshot, []];
+      }
+      if (runtime.destructAt === undefined || minutes === undefined) {
+        return [snapshot, []];
+      }
+      if (isLockedOut(runtime, event.now)) return [snapshot, []];
+      return [
+        {
+          ...snapshot,
+          runtime: {
+            ...runtime,
+            checkedInAt: event.now,
+            destructAt: event.now + minutes * 60 * 1000,
+          },
+        },
+        [],
+      ];
+    }
+
+    case 'lockout': {
+      if (snapshot.runtime.state !== 'closed') return [snapshot, []];
+      const lockouts = snapshot.runtime.lockouts ?? 0;
+      const step = LOCKOUT_STEPS[Math.min(lockouts, LOCKOUT_STEPS.length - 1)];
+      return [
+        {
+          ...snapshot,
+          runtime: {
+            ...snapshot.runtime,
+            lockouts: lockouts + 1,
+            lockedUntil: event.now + step * 1000,
+          },
+        },
+        [],
+      ];
+    }
+
+    case 'unlock': {
+      if (snapshot.runtime.lockedUntil === undefined) return [snapshot, []];
+      return [
+        {
+          ...snapshot,
+          runtime: { ...snapshot.runtime, lockedUntil: undefined },
+        },
+        [],
+      ];
+    }
+
     case 'tick': {
       if (snapshot.runtime.state !== 'closed') return [snapshot, []];
       const destructAt = snapshot.runtime.destructAt;
       if (destructAt !== undefined && event.now >= destructAt) {
         return [snapshot, [{ type: 'explode' }]];
       }
+      const lockedUntil = snapshot.runtime.lockedUntil;
+      if (lockedUntil !== undefined && event.now >= lockedUntil) {
+        return [snapshot, [{ type: 'unlock' }]];
+      }
       return [snapshot, []];
     }
 
@@ -103,10 +331,25 @@ export function reduce(
       if (snapshot.settings.survivalEnabled && random() < chance / 100) {
         return [snapshot, [{ type: 'survive' }]];
       }
+      // In damage mode a closed safe loses part of its content and
+      // survives with the rest, unless nothing is left.
+      const level = snapshot.settings.damageLevel;
+      if (level !== undefined && snapshot.runtime.state === 'closed') {
+        const damage = damaged(snapshot.runtime, level / 100, random);
+        if (damage.share < 1) {
+          return [
+            { ...snapshot, runtime: { ...snapshot.runtime, damage } },
+            [{ type: 'survive' }],
+          ];
+        }
+      }
+      // Otherwise the content goes as a whole, every attachment with it;
+      // surviving likewise keeps all of it.
       return [
         {
           ...snapshot,
           content: { text: '' },
+          decoy: undefined,
           settings: {
             ...snapshot.settings,
           },
@@ -122,13 +365,23 @@ export function reduce(
 
     case 'survive': {
       if (snapshot.runtime.state !== 'closed') return [snapshot, []];
+      const { shared } = snapshot.runtime;
       return [
         {
           ...snapshot,
           runtime: {
             ...snapshot.runtime,
             attemptsMade: 0,
+            shared: shared && {
+              ...shared,
+              keyholders: shared.keyholders.map((keyholder) => ({
+                ...keyholder,
+                attemptsMade: 0,
+              })),
+            },
             destructAt: undefined,
+            lockouts: undefined,
+            lockedUntil: undefined,
             explosionResult: 'survived',
           },
         },
@@ -138,8 +391,46 @@ export function reduce(
 
     case 'startNew': {
       if (snapshot.runtime.state !== 'destroyed') return [snapshot, []];
-      return [spawnSafe(snapshot.settings.language), []];
+      // The id stays so other tabs showing this safe follow it.
+      const fresh = spawnSafe(snapshot.settings.language, snapshot.name);
+      return [
+        {
+          ...fresh,
+          id: snapshot.id,
+          hostedId: event.hostedId,
+          revision: snapshot.revision,
+        },
+        [],
+      ];
+    }
+
+    case 'tamper': {
+      // 'refuse' is handled by not loading the safe at all.
+      const policy = snapshot.settings.tamperPolicy;
+      if (policy === 'explode') return [snapshot, [{ type: 'explode' }]];
+      if (policy === 'wrongPin') {
+        return [snapshot, [{ type: 'wrongPin', now: event.now }]];
+      }
+      return [snapshot, []];
+    }
+
+    case 'configure':
+      return [{ ...snapshot, settings: event.settings }, []];
+
+    case 'sync': {
+      // Hosted safes take their runtime from the Worker, which never hands
+      // out content; only an open safe keeps what the client holds. One
+      // opened elsewhere stays closed here until its PIN fetches the
+      // content here too.
+      if (
+        event.runtime.state === 'open' &&
+        snapshot.runtime.state === 'closed'
+      ) {
+        return [snapshot, []];
+      }
+      const content =
+        event.runtime.state === 'open' ? snapshot.content : { text: '' };
+      return [{ ...snapshot, content, runtime: event.runtime }, []];
     }
   }
 }
-
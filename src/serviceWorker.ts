@@ -0,0 +1,95 @@
+/**
+ * The service worker, built to /sw.js. The build prepends PRECACHE, every
+ * file the app is made of, and VERSION, which changes with any of them
+ * (see vite.config.ts), so each release installs as a new worker that
+ * waits until the player lets it take over.
+ *
+ * It only ever touches its own caches: safes, statistics and settings live
+ * in IndexedDB and localStorage, which installs and updates leave alone.
+ */
+
+declare const PRECACHE: string[];
+declare const VERSION: string;
+
+// The DOM library has no service worker types, so the few used are here.
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+
+interface ExtendableMessageEvent extends ExtendableEvent {
+  data: unknown;
+}
+
+interface ServiceWorkerScope {
+  location: Location;
+  skipWaiting(): Promise<void>;
+  addEventListener(
+    type: 'install' | 'activate',
+    listener: (event: ExtendableEvent) => void,
+  ): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+  addEventListener(
+    type: 'message',
+    listener: (event: ExtendableMessageEvent) => void,
+  ): void;
+}
+
+declare const self: ServiceWorkerScope;
+
+const CACHE_PREFIX = 'sejf-';
+const CACHE = `${CACHE_PREFIX}${VERSION}`;
+
+self.addEventListener('install', (event) => {
+  // Straight from the network, so a stale HTTP cache can't mix releases.
+  const requests = PRECACHE.map((url) => new Request(url, { cache: 'reload' }));
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(requests)));
+});
+
+// Older releases' caches go once this one takes over.
+async function dropOldCaches(): Promise<void> {
+  const keys = await caches.keys();
+  const old = keys.filter(
+    (key) => key.startsWith(CACHE_PREFIX) && key !== CACHE,
+  );
+  await Promise.all(old.map((key) => caches.delete(key)));
+}
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(dropOldCaches());
+});
+
+self.addEventListener('message', (event) => {
+  const data = event.data as { type?: unknown } | null;
+  if (data?.type === 'skipWaiting') void self.skipWaiting();
+});
+
+async function respond(request: Request): Promise<Response> {
+  const cache = await caches.open(CACHE);
+  // Every page is the app; share links only differ in the hash.
+  const cached =
+    request.mode === 'navigate'
+      ? await cache.match('/')
+      : await cache.match(request);
+  return cached ?? fetch(request);
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Hosted safes need the Worker itself; they are never served from here.
+  if (
+    request.method !== 'GET' ||
+    url.origin !== self.location.origin ||
+    url.pathname.startsWith('/api/')
+  ) {
+    return;
+  }
+  event.respondWith(respond(request));
+});
+
+export {};
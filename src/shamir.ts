@@ -0,0 +1,74 @@
+/**
+ * Shamir's secret sharing over GF(2^8), applied to each byte of the secret
+ * on its own. Any `threshold` shares rebuild the secret and fewer reveal
+ * nothing about it. A share is its x coordinate (1–255) followed by one y
+ * byte per secret byte.
+ */
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+// Powers of the generator 3 modulo the AES polynomial x^8+x^4+x^3+x+1.
+{
+  let x = 1;
+  for (let i = 0; i < 255; i += 1) {
+    EXP[i] = x;
+    EXP[i + 255] = x;
+    LOG[x] = i;
+    x ^= ((x << 1) ^ (x & 0x80 ? 0x1b : 0)) & 0xff;
+  }
+}
+
+function multiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function divide(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+export function splitSecret(
+  secret: Uint8Array,
+  shares: number,
+  threshold: number,
+): Uint8Array<ArrayBuffer>[] {
+  if (threshold < 1 || threshold > shares || shares > 255) {
+    throw new RangeError('Invalid share count');
+  }
+  const result = Array.from({ length: shares }, (_, index) => {
+    const share = new Uint8Array(secret.length + 1);
+    share[0] = index + 1;
+    return share;
+  });
+  const coefficients = new Uint8Array(threshold - 1);
+  secret.forEach((byte, position) => {
+    crypto.getRandomValues(coefficients);
+    for (const share of result) {
+      // Horner's rule, highest coefficient first; addition is XOR.
+      let y = 0;
+      for (let i = coefficients.length - 1; i >= 0; i -= 1) {
+        y = multiply(y, share[0]) ^ coefficients[i];
+      }
+      share[position + 1] = multiply(y, share[0]) ^ byte;
+    }
+  });
+  return result;
+}
+
+/** Rebuilds the secret from at least `threshold` distinct shares. */
+export function combineShares(shares: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const length = shares[0].length - 1;
+  const secret = new Uint8Array(length);
+  shares.forEach((share, i) => {
+    // Lagrange basis polynomial for this share, evaluated at x = 0.
+    let basis = 1;
+    shares.forEach((other, j) => {
+      if (i === j) return;
+      basis = multiply(basis, divide(other[0], other[0] ^ share[0]));
+    });
+    for (let position = 0; position < length; position += 1) {
+      secret[position] ^= multiply(share[position + 1], basis);
+    }
+  });
+  return secret;
+}
@@ -0,0 +1,208 @@
+import type { SafeSnapshot } from './types';
+import { reduce, spawnSafe } from './safeMachine';
+import { unwrapSnapshot, wrapSnapshot } from './persistence';
+import { fromBase64Url, toBase64Url } from './encoding';
+import { isSealedContent } from './vault';
+import { getLang } from './i18n';
+
+const FRAGMENT_PREFIX = '#share=';
+const IV_BYTES = 12;
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+async function transform(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const piped = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+}
+
+function optionalInRange(value: unknown, max: number): boolean {
+  if (value === undefined) return true;
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= 1 &&
+    value <= max
+  );
+}
+
+export function isShareFragment(hash: string): boolean {
+  return hash.startsWith(FRAGMENT_PREFIX);
+}
+
+/**
+ * Builds a link carrying a closed safe in its fragment, so it never reaches
+ * a server. The safe travels sealed with its PIN; the whole payload is
+ * compressed and encrypted with a one-off key kept in the link itself,
+ * which lets a tampered link fail cleanly instead of half-importing.
+ */
+export async function createShareLink(
+  snapshot: SafeSnapshot,
+  baseUrl: string,
+): Promise<string> {
+  const { runtime, settings } = snapshot;
+  const sealed = Boolean(runtime.sealed && runtime.pinHash);
+  if (runtime.state !== 'closed' || !(sealed || runtime.compartments)) {
+    throw new ShareLinkError('Only sealed, closed safes can be shared');
+  }
+  const shared: SafeSnapshot = {
+    id: snapshot.id,
+    name: snapshot.name,
+    content: { text: '' },
+    settings: {
+      language: settings.language,
+      survivalEnabled: settings.survivalEnabled,
+      survivalChance: settings.survivalChance,
+      damageLevel: settings.damageLevel,
+      autodestructMinutes: settings.autodestructMinutes,
+      pinAttemptsLimit: settings.pinAttemptsLimit,
+      lockoutAfter: settings.lockoutAfter,
+      unlockAt: runtime.unlockAt,
+      deadManSwitch: settings.deadManSwitch,
+    },
+    runtime: {
+      state: 'closed',
+      lockType: runtime.lockType,
+      pinHash: runtime.pinHash,
+      duressHash: runtime.duressHash,
+      sealed: runtime.sealed,
+      compartments: runtime.compartments,
+      attemptsMade: 0,
+    },
+    journal: [],
+    revision: 0,
+    updatedAt: 0,
+  };
+  const json = new TextEncoder().encode(JSON.stringify(wrapSnapshot(shared)));
+  const compressed = await transform(
+    json,
+    new CompressionStream('deflate-raw'),
+  );
+  const rawKey = crypto.getRandomValues(new Uint8Array(32));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await crypto.subtle.importKey('raw', rawKey, 'AES-GCM', false, [
+    'encrypt',
+  ]);
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, compressed),
+  );
+  const payload = new Uint8Array(IV_BYTES + ciphertext.length);
+  payload.set(iv);
+  payload.set(ciphertext, IV_BYTES);
+  const url = new URL(baseUrl);
+  url.hash = `${FRAGMENT_PREFIX.slice(1)}${toBase64Url(rawKey)}.${toBase64Url(payload)}`;
+  return url.toString();
+}
+
+/**
+ * Turns a share fragment into a new closed safe with the sender's rules.
+ * The recipient's timer starts at import time, while a time capsule keeps
+ * its date. Throws ShareLinkError for anything that is not an intact link.
+ */
+export async function readShareLink(
+  hash: string,
+  now: number,
+): Promise<SafeSnapshot> {
+  if (!isShareFragment(hash)) {
+    throw new ShareLinkError('Not a share link');
+  }
+  const [keyPart, payloadPart, ...rest] = hash
+    .slice(FRAGMENT_PREFIX.length)
+    .split('.');
+  if (!keyPart || !payloadPart || rest.length > 0) {
+    throw new ShareLinkError('Malformed share link');
+  }
+
+  let shared: SafeSnapshot | undefined;
+  try {
+    const rawKey = fromBase64Url(keyPart);
+    const payload = fromBase64Url(payloadPart);
+    const key = await crypto.subtle.importKey('raw', rawKey, 'AES-GCM', false, [
+      'decrypt',
+    ]);
+    const compressed = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: payload.slice(0, IV_BYTES) },
+      key,
+      payload.slice(IV_BYTES),
+    );
+    const json = await transform(
+      new Uint8Array(compressed),
+      new DecompressionStream('deflate-raw'),
+    );
+    shared = unwrapSnapshot(JSON.parse(new TextDecoder().decode(json)));
+  } catch {
+    throw new ShareLinkError('Share link is damaged or was tampered with');
+  }
+
+  const settings = shared?.settings;
+  const runtime = shared?.runtime;
+  if (
+    !shared ||
+    !settings ||
+    !runtime ||
+    !(
+      (typeof runtime.pinHash === 'string' &&
+        isSealedContent(runtime.sealed)) ||
+      (Array.isArray(runtime.compartments) &&
+        runtime.compartments.length === 2 &&
+        runtime.compartments.every(isSealedContent))
+    ) ||
+    (runtime.duressHash !== undefined &&
+      typeof runtime.duressHash !== 'string') ||
+    !optionalInRange(settings.autodestructMinutes, 999) ||
+    !optionalInRange(settings.pinAttemptsLimit, 999) ||
+    !optionalInRange(settings.lockoutAfter, 999) ||
+    !optionalInRange(settings.survivalChance, 100) ||
+    !optionalInRange(settings.damageLevel, 100) ||
+    (settings.unlockAt !== undefined &&
+      !(Number.isInteger(settings.unlockAt) && settings.unlockAt > 0))
+  ) {
+    throw new ShareLinkError('Share link does not contain a sealed safe');
+  }
+
+  const fresh = spawnSafe(
+    getLang(),
+    typeof shared.name === 'string' ? shared.name : '',
+  );
+  const received: SafeSnapshot = {
+    ...fresh,
+    settings: {
+      ...fresh.settings,
+      survivalEnabled: settings.survivalEnabled === true,
+      survivalChance: settings.survivalChance,
+      survivalChanceRemembered:
+        settings.survivalChance ?? fresh.settings.survivalChanceRemembered,
+      damageLevel: settings.damageLevel,
+      damageLevelRemembered: settings.damageLevel,
+      autodestructMinutes: settings.autodestructMinutes,
+      autodestructMinutesRemembered:
+        settings.autodestructMinutes ??
+        fresh.settings.autodestructMinutesRemembered,
+      pinAttemptsLimit: settings.pinAttemptsLimit,
+      pinAttemptsLimitRemembered:
+        settings.pinAttemptsLimit ?? fresh.settings.pinAttemptsLimitRemembered,
+      lockoutAfter: settings.lockoutAfter,
+      lockoutAfterRemembered:
+        settings.lockoutAfter ?? fresh.settings.lockoutAfterRemembered,
+      lockType: runtime.lockType,
+      unlockAt: settings.unlockAt,
+      deadManSwitch: settings.deadManSwitch === true || undefined,
+    },
+  };
+  const [closed] = reduce(received, {
+    type: 'close',
+    pinHash: runtime.pinHash,
+    duressHash: runtime.duressHash,
+    sealed: runtime.sealed,
+    compartments: runtime.compartments,
+    now,
+  });
+  return closed;
+}
@@ -0,0 +1,146 @@
+import type { ExplosionCause, SafeSnapshot } from './types';
+
+/**
+ * Statistics across every safe this browser has had, kept apart from the
+ * safes so they outlive startNew and deletion. Only counts and durations
+ * go in, never names, content or PINs.
+ */
+export interface Stats {
+  created: number;
+  opened: number;
+  destroyed: Record<ExplosionCause, number>;
+  survived: number;
+  longestClosed: number; // ms, the longest a safe stayed closed to an outcome
+  outcomeTime: number; // ms from closedAt to outcome, summed over outcomes
+  outcomes: number; // outcomes with a known closedAt, for the average
+  wrongAttempts: number[]; // [n] = outcomes after n wrong attempts
+  counted: string[]; // recent timer outcomes, see tally()
+}
+
+/** The last bucket of wrongAttempts holds this many attempts or more. */
+export const ATTEMPT_BUCKETS = 10;
+
+// Enough to cover timer outcomes that two tabs can race on.
+const COUNTED_LIMIT = 50;
+
+const CAUSES: ExplosionCause[] = ['timer', 'attempts', 'manual', 'tamper'];
+
+export function emptyStats(): Stats {
+  return {
+    created: 0,
+    opened: 0,
+    destroyed: { timer: 0, attempts: 0, manual: 0, tamper: 0 },
+    survived: 0,
+    longestClosed: 0,
+    outcomeTime: 0,
+    outcomes: 0,
+    wrongAttempts: Array<number>(ATTEMPT_BUCKETS + 1).fill(0),
+    counted: [],
+  };
+}
+
+function count(value: unknown): number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+    ? value
+    : 0;
+}
+
+/** Stored statistics, with anything damaged counted from zero. */
+export function readStats(value: unknown): Stats {
+  const stats = emptyStats();
+  if (typeof value !== 'object' || value === null) return stats;
+  const stored = value as Record<string, unknown>;
+  const destroyed = (stored.destroyed ?? {}) as Record<string, unknown>;
+  const attempts = Array.isArray(stored.wrongAttempts)
+    ? stored.wrongAttempts
+    : [];
+  return {
+    created: count(stored.created),
+    opened: count(stored.opened),
+    destroyed: {
+      timer: count(destroyed.timer),
+      attempts: count(destroyed.attempts),
+      manual: count(destroyed.manual),
+      tamper: count(destroyed.tamper),
+    },
+    survived: count(stored.survived),
+    longestClosed: count(stored.longestClosed),
+    outcomeTime: count(stored.outcomeTime),
+    outcomes: count(stored.outcomes),
+    wrongAttempts: stats.wrongAttempts.map((_, index) =>
+      count(attempts[index]),
+    ),
+    counted: Array.isArray(stored.counted)
+      ? stored.counted.filter((key) => typeof key === 'string')
+      : [],
+  };
+}
+
+/**
+ * Adds what happened between two states of a safe, as told by the journal
+ * entries the step added. Every tab ticks every safe, so two tabs can both
+ * see a timer go off; those outcomes are remembered for a while and only
+ * counted once.
+ */
+export function tally(
+  stats: Stats,
+  before: SafeSnapshot,
+  after: SafeSnapshot,
+): Stats {
+  const next: Stats = {
+    ...stats,
+    destroyed: { ...stats.destroyed },
+    wrongAttempts: [...stats.wrongAttempts],
+    counted: [...stats.counted],
+  };
+  let changed = false;
+  if (before.runtime.state === 'destroyed' && after.runtime.state === 'open') {
+    next.created += 1;
+    changed = true;
+  }
+  const { closedAt } = before.runtime;
+  let attempts = before.runtime.attemptsMade;
+  const outcome = (at: number) => {
+    changed = true;
+    next.wrongAttempts[Math.min(attempts, ATTEMPT_BUCKETS)] += 1;
+    if (closedAt === undefined) return;
+    const closedFor = Math.max(0, at - closedAt);
+    next.outcomes += 1;
+    next.outcomeTime += closedFor;
+    next.longestClosed = Math.max(next.longestClosed, closedFor);
+  };
+  const added = after.journal.filter(
+    (entry) => !before.journal.includes(entry),
+  );
+  for (const entry of added) {
+    switch (entry.kind) {
+      case 'wrongPin': {
+        // A run of wrong attempts goes on in the journal's last entry.
+        const last = before.journal[before.journal.length - 1];
+        attempts += entry.count - (last?.kind === 'wrongPin' ? last.count : 0);
+        break;
+      }
+      case 'open':
+        next.opened += 1;
+        outcome(entry.at);
+        break;
+      case 'destroyed':
+      case 'survived': {
+        if (entry.cause === 'timer') {
+          const key = `${after.id}:${closedAt}:${entry.kind}`;
+          if (next.counted.includes(key)) break;
+          next.counted = [...next.counted, key].slice(-COUNTED_LIMIT);
+        }
+        if (entry.kind === 'survived') next.survived += 1;
+        else if (CAUSES.includes(entry.cause)) next.destroyed[entry.cause] += 1;
+        outcome(entry.at);
+        break;
+      }
+    }
+  }
+  return changed ? next : stats;
+}
+
+export function countCreated(stats: Stats): Stats {
+  return { ...stats, created: stats.created + 1 };
+}
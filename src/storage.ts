@@ -0,0 +1,146 @@
+/**
+ * Where persistence.ts keeps its entries. IndexedDB is preferred since it
+ * takes Blobs and far more data; localStorage is the fallback, and when a
+ * private window allows neither, entries live in memory until the tab
+ * closes.
+ */
+export type StorageKind = 'indexedDB' | 'localStorage' | 'memory';
+
+export interface StorageAdapter {
+  readonly kind: StorageKind;
+  /** Whether values may hold Blobs; otherwise they must survive JSON. */
+  readonly binary: boolean;
+  get(key: string): Promise<unknown>;
+  /** Writes all entries at once; undefined values delete their key. */
+  set(entries: Record<string, unknown>): Promise<void>;
+}
+
+const DB_NAME = 'sejf';
+const DB_STORE = 'entries';
+const KEY_PREFIX = 'safe-game:';
+
+/** Thrown when the browser refuses a write because its quota is used up. */
+export class StorageFullError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageFullError';
+  }
+}
+
+function isQuotaError(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' ||
+      error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+  );
+}
+
+function toStorageError(error: unknown): unknown {
+  return isQuotaError(error)
+    ? new StorageFullError((error as DOMException).message)
+    : error;
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function openIndexedDb(): Promise<StorageAdapter> {
+  const opening = indexedDB.open(DB_NAME, 1);
+  opening.onupgradeneeded = () => {
+    opening.result.createObjectStore(DB_STORE);
+  };
+  const db = await settle(opening);
+  // Let a newer version of the app upgrade the database from another tab.
+  db.onversionchange = () => db.close();
+  return {
+    kind: 'indexedDB',
+    binary: true,
+    get: (key) =>
+      settle(db.transaction(DB_STORE).objectStore(DB_STORE).get(key)),
+    set: (entries) =>
+      new Promise((resolve, reject) => {
+        const transaction = db.transaction(DB_STORE, 'readwrite');
+        const store = transaction.objectStore(DB_STORE);
+        for (const [key, value] of Object.entries(entries)) {
+          if (value === undefined) store.delete(key);
+          else store.put(value, key);
+        }
+        transaction.oncomplete = () => resolve();
+        // A full disk aborts the transaction with a QuotaExceededError.
+        transaction.onabort = () => reject(toStorageError(transaction.error));
+      }),
+  };
+}
+
+function localStorageAdapter(): StorageAdapter {
+  // Private windows may expose localStorage but refuse every write.
+  const probe = `${KEY_PREFIX}probe`;
+  localStorage.setItem(probe, '');
+  localStorage.removeItem(probe);
+  return {
+    kind: 'localStorage',
+    binary: false,
+    get: async (key) => {
+      const raw = localStorage.getItem(KEY_PREFIX + key);
+      if (raw === null) return undefined;
+      try {
+        return JSON.parse(raw);
+      } catch {
+        // Left as text, which no reader takes for a valid entry.
+        return raw;
+      }
+    },
+    set: async (entries) => {
+      // localStorage has no transactions; a failed write puts back what
+      // the earlier ones replaced.
+      const previous = new Map<string, string | null>();
+      try {
+        for (const [key, value] of Object.entries(entries)) {
+          const name = KEY_PREFIX + key;
+          previous.set(name, localStorage.getItem(name));
+          if (value === undefined) localStorage.removeItem(name);
+          else localStorage.setItem(name, JSON.stringify(value));
+        }
+      } catch (error) {
+        previous.forEach((raw, name) => {
+          if (raw === null) localStorage.removeItem(name);
+          else localStorage.setItem(name, raw);
+        });
+        throw toStorageError(error);
+      }
+    },
+  };
+}
+
+function memoryAdapter(): StorageAdapter {
+  const entries = new Map<string, unknown>();
+  return {
+    kind: 'memory',
+    binary: true,
+    get: async (key) => entries.get(key),
+    set: async (changes) => {
+      for (const [key, value] of Object.entries(changes)) {
+        if (value === undefined) entries.delete(key);
+        else entries.set(key, value);
+      }
+    },
+  };
+}
+
+/** Opens the best storage this browser allows. */
+export async function openStorage(): Promise<StorageAdapter> {
+  try {
+    return await openIndexedDb();
+  } catch {
+    // Blocked, or a browser without IndexedDB (some private modes).
+  }
+  try {
+    return localStorageAdapter();
+  } catch {
+    return memoryAdapter();
+  }
+}
@@ -0,0 +1,118 @@
+import type { SafeCollection, SafeSnapshot } from './types';
+
+const DELETED_LIMIT = 100;
+
+/**
+ * Stamps the result of one dispatch so other tabs can order it: every
+ * change of runtime.state starts a new revision.
+ */
+export function stamp(
+  before: SafeSnapshot,
+  after: SafeSnapshot,
+  now: number,
+): SafeSnapshot {
+  const revision =
+    before.revision + (before.runtime.state !== after.runtime.state ? 1 : 0);
+  return { ...after, revision, updatedAt: now };
+}
+
+/** The larger of two optional counts or times. */
+function larger(
+  a: number | undefined,
+  b: number | undefined,
+): number | undefined {
+  return a === undefined ? b : b === undefined ? a : Math.max(a, b);
+}
+
+/**
+ * Decides between two tabs' copies of one safe. A later revision always
+ * wins, so a stale tab can't undo a close, an opening or an explosion.
+ * Within one revision destruction wins, and a closed safe keeps the wrong
+ * attempts made in either tab, per keyholder too, the longer cooldown and
+ * the worse damage; anything else goes to the latest change.
+ */
+export function mergeSafe(
+  local: SafeSnapshot,
+  remote: SafeSnapshot,
+): SafeSnapshot {
+  if (local.revision !== remote.revision) {
+    return local.revision > remote.revision ? local : remote;
+  }
+  const localDestroyed = local.runtime.state === 'destroyed';
+  if (localDestroyed !== (remote.runtime.state === 'destroyed')) {
+    return localDestroyed ? local : remote;
+  }
+  const newer = remote.updatedAt > local.updatedAt ? remote : local;
+  const older = newer === local ? remote : local;
+  if (
+    newer.runtime.state !== 'closed' ||
+    older.runtime.state !== 'closed' ||
+    newer.runtime.explosionResult !== older.runtime.explosionResult
+  ) {
+    return newer;
+  }
+  const { shared, damage } = newer.runtime;
+  const olderKeyholders = older.runtime.shared?.keyholders ?? [];
+  const olderDamage = older.runtime.damage;
+  const behind =
+    older.runtime.attemptsMade > newer.runtime.attemptsMade ||
+    (shared?.keyholders.some(
+      (keyholder, index) =>
+        (olderKeyholders[index]?.attemptsMade ?? 0) > keyholder.attemptsMade,
+    ) ??
+      false) ||
+    (older.runtime.lockouts ?? 0) > (newer.runtime.lockouts ?? 0) ||
+    (older.runtime.lockedUntil ?? 0) > (newer.runtime.lockedUntil ?? 0) ||
+    (olderDamage?.share ?? 0) > (damage?.share ?? 0);
+  if (!behind) return newer;
+  return {
+    ...newer,
+    runtime: {
+      ...newer.runtime,
+      attemptsMade: Math.max(
+        newer.runtime.attemptsMade,
+        older.runtime.attemptsMade,
+      ),
+      shared: shared && {
+        ...shared,
+        keyholders: shared.keyholders.map((keyholder, index) => ({
+          ...keyholder,
+          attemptsMade: Math.max(
+            keyholder.attemptsMade,
+            olderKeyholders[index]?.attemptsMade ?? 0,
+          ),
+        })),
+      },
+      lockouts: larger(newer.runtime.lockouts, older.runtime.lockouts),
+      lockedUntil: larger(newer.runtime.lockedUntil, older.runtime.lockedUntil),
+      damage:
+        (olderDamage?.share ?? 0) > (damage?.share ?? 0) ? olderDamage : damage,
+    },
+  };
+}
+
+/**
+ * Folds another tab's collection into this one. Safes keep this tab's
+ * order with new ones appended, and anything deleted in either tab stays
+ * deleted. activeId is per tab and never taken from `remote`.
+ */
+export function mergeCollections(
+  local: SafeCollection,
+  remote: SafeCollection,
+): SafeCollection {
+  const deleted = [
+    ...new Set([...(local.deleted ?? []), ...(remote.deleted ?? [])]),
+  ].slice(-DELETED_LIMIT);
+  const remoteById = new Map(remote.safes.map((safe) => [safe.id, safe]));
+  const safes = local.safes.map((safe) => {
+    const other = remoteById.get(safe.id);
+    remoteById.delete(safe.id);
+    return other ? mergeSafe(safe, other) : safe;
+  });
+  safes.push(...remoteById.values());
+  const kept = safes.filter((safe) => !deleted.includes(safe.id));
+  const activeId = kept.some((safe) => safe.id === local.activeId)
+    ? local.activeId
+    : undefined;
+  return { activeId, safes: kept, deleted };
+}
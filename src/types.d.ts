@@ -1,35 +1,142 @@
 export type Lang = 'en' | 'pl' | 'it';
 
+export interface Attachment {
+  name: string;
+  type: string; // MIME type, '' when the browser didn't know it
+  size: number; // bytes
+  dataUrl: string; // Data URL representation
+}
+
 export interface SafeContent {
   text: string;
-  imageDataUrl?: string; // Data URL representation
+  format?: 'markdown'; // how the text is written; plain when absent
+  attachments?: Attachment[]; // in the order they were added
+}
+
+/** What a compartment holds; only the main one carries the decoy. */
+export interface Compartment {
+  content: SafeContent;
+  decoy?: SafeContent;
+  main?: SealedContent; // opened with the decoy PIN: the main one, sealed
 }
 
+export type LockType = 'pin' | 'passphrase' | 'pattern' | 'dial';
+
+export type TamperPolicy = 'refuse' | 'wrongPin' | 'explode';
+
+export type ImageFormat = 'webp' | 'jpeg';
+
 export interface SafeSettings {
   language: Lang;
   survivalEnabled: boolean; // survival chance active when true
   survivalChance?: number; // 1–100 percent chance on destruction
   survivalChanceRemembered?: number; // last entered survival chance value
+  damageLevel?: number; // 1–100 percent an explosion damages, undefined = all
+  damageLevelRemembered?: number; // stored even when disabled
   autodestructMinutes?: number; // 1–999, undefined = disabled
   autodestructMinutesRemembered?: number; // stored even when disabled
+  deadManSwitch?: boolean; // check-ins restart the autodestruct interval
+  countdownWarning?: number; // 1–100 percent left that turns it red, def. 10
+  unlockAt?: number; // epoch ms the next close stays sealed until
+  unlockAtRemembered?: number; // stored even when disabled
   pinAttemptsLimit?: number; // positive integer, undefined = unlimited
   pinAttemptsLimitRemembered?: number; // stored even when disabled
+  lockoutAfter?: number; // wrong attempts per cooldown, undefined = none
+  lockoutAfterRemembered?: number; // stored even when disabled
+  tamperPolicy?: TamperPolicy; // on a failed integrity check, default refuse
+  lockType?: LockType; // used by the next close, undefined = pin
+  keyholders?: number; // 2–9 keyholders for the next close, undefined = one
+  keyholdersRemembered?: number; // stored even when disabled
+  keysRequired?: number; // keys needed to open, 1 to keyholders
+  attemptsScope?: 'global' | 'keyholder'; // what pinAttemptsLimit counts
+  imageMaxSize?: number; // px on the longer side of added photos, def. 1600
+  imageFormat?: ImageFormat; // what added photos are encoded as, def. webp
+  imageQuality?: number; // 1–100 encoder quality, def. 80
+  sound?: boolean; // false mutes sound effects, undefined = on
+  motion?: boolean; // false turns off animations, undefined = on
+}
+
+export interface SealedContent {
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // base64
+  iv: string; // base64
+  data: string; // base64 AES-GCM ciphertext of SafeContent JSON or a share
+}
+
+export interface Keyholder {
+  share: SealedContent; // key share sealed with this keyholder's PIN
+  attemptsMade: number; // this keyholder's wrong attempts
+}
+
+/** Content sealed for M of N keyholders, see vault.ts and shamir.ts. */
+export interface SharedSeal {
+  required: number; // shares needed to rebuild the content key
+  keyholders: Keyholder[];
+  iv: string; // base64
+  data: string; // base64 AES-GCM ciphertext of SafeContent JSON
 }
 
 export type SafeState = 'open' | 'closed' | 'destroyed';
 
 export interface SafeRuntime {
   state: SafeState;
-  pinHash?: string; // sha256 of pin
+  pinHash?: string; // self-describing hash, see pin.ts
+  duressHash?: string; // hash of the optional duress PIN, same format
+  lockType?: LockType; // lock the safe was closed with, undefined = pin
   attemptsMade: number; // wrong attempts in current closed cycle
+  sealed?: SealedContent; // encrypted content while closed
+  shared?: SharedSeal; // instead of pinHash and sealed for keyholders
+  compartments?: [SealedContent, SealedContent]; // main and decoy, shuffled
+  main?: SealedContent; // open with the decoy PIN: the main compartment
   closedAt?: number; // epoch ms
   destructAt?: number; // epoch ms, if timer armed
+  checkedInAt?: number; // epoch ms of the last dead man's switch check-in
+  unlockAt?: number; // epoch ms, even the right PIN is refused until then
+  lockouts?: number; // cooldowns served in current closed cycle
+  lockedUntil?: number; // epoch ms, PIN entry refused until then
   explosionResult?: 'survived' | 'destroyed';
+  damage?: Damage; // what explosions and wrong PINs destroyed, see damage.ts
+}
+
+/** Damage done to sealed content, carried out when the safe is opened. */
+export interface Damage {
+  seed: number; // 32-bit, picks which parts are lost
+  share: number; // 0–1, how much of the content is lost
 }
 
+export type ExplosionCause = 'timer' | 'attempts' | 'manual' | 'tamper';
+
+export type JournalEntry =
+  | {
+      at: number;
+      kind: 'close' | 'open' | 'settings' | 'tampered' | 'checkIn';
+      state: SafeState;
+    }
+  | { at: number; kind: 'wrongPin'; count: number; state: SafeState }
+  | {
+      at: number;
+      kind: 'destroyed' | 'survived';
+      cause: ExplosionCause;
+      state: SafeState;
+    };
+
 export interface SafeSnapshot {
   id: string; // uuid
+  name: string; // empty = untitled
+  hostedId?: string; // Durable Object id when the Worker owns the rules
   content: SafeContent;
+  decoy?: SafeContent; // decoy compartment, open via the main PIN only
   settings: SafeSettings;
   runtime: SafeRuntime;
+  journal: JournalEntry[]; // never holds PINs or content
+  revision: number; // bumped on every runtime.state change, see sync.ts
+  updatedAt: number; // epoch ms of the last change in any tab
+  integrity?: string; // HMAC over runtime and rules, see integrity.ts
+}
+
+export interface SafeCollection {
+  activeId?: string; // safe on screen, undefined = safe list
+  safes: SafeSnapshot[];
+  deleted?: string[]; // ids removed in some tab, so others drop them too
 }
@@ -0,0 +1,622 @@
+import type {
+  Attachment,
+  Damage,
+  ExplosionCause,
+  JournalEntry,
+  Lang,
+  LockType,
+  SafeContent,
+  SafeRuntime,
+  SafeSettings,
+  SafeSnapshot,
+  SafeState,
+  TamperPolicy,
+} from './types';
+import { isSealedContent, isSharedSeal } from './vault';
+import { attemptsCounted, LOCK_TYPES } from './safeMachine';
+import { MAX_IMAGE_SIZE } from './images';
+
+/**
+ * Checks a stored safe against the shapes in types.d.ts and the limits the
+ * settings dialog enforces. Harmless damage is repaired and listed in
+ * `repairs` (as field paths); anything that would leave the safe
+ * unopenable, or would loosen its rules, makes the whole safe invalid.
+ */
+export type Validation =
+  | { ok: true; snapshot: SafeSnapshot; repairs: string[] }
+  | { ok: false; error: string };
+
+const LANGS: Lang[] = ['en', 'pl', 'it'];
+const STATES: SafeState[] = ['open', 'closed', 'destroyed'];
+const TAMPER_POLICIES: TamperPolicy[] = ['refuse', 'wrongPin', 'explode'];
+const PIN_HASH_FORMAT =
+  /^(pbkdf2-sha256\$\d+\$[^$]+\$[^$]+|sha256\$[0-9a-f]{64})$/;
+
+class InvalidSnapshot extends Error {}
+
+type Fields = Record<string, unknown>;
+
+function isRecord(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toInteger(value: unknown): number | undefined {
+  const number =
+    typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isInteger(number)
+    ? number
+    : undefined;
+}
+
+function toTimestamp(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+    ? value
+    : undefined;
+}
+
+function validateContent(
+  value: unknown,
+  repairs: string[],
+  path = 'content',
+): SafeContent {
+  if (!isRecord(value)) {
+    repairs.push(path);
+    return { text: '' };
+  }
+  let text = value.text;
+  if (typeof text !== 'string') {
+    repairs.push(`${path}.text`);
+    text = '';
+  }
+  const content: SafeContent = { text: text as string };
+  if (value.format === 'markdown') content.format = 'markdown';
+  else if (value.format !== undefined) repairs.push(`${path}.format`);
+  if (value.attachments === undefined) return content;
+  if (!Array.isArray(value.attachments)) {
+    repairs.push(`${path}.attachments`);
+    return content;
+  }
+  const attachments = value.attachments.filter(isAttachment);
+  if (attachments.length !== value.attachments.length) {
+    repairs.push(`${path}.attachments`);
+  }
+  if (attachments.length > 0) content.attachments = attachments;
+  return content;
+}
+
+function isAttachment(value: unknown): value is Attachment {
+  return (
+    isRecord(value) &&
+    typeof value.name === 'string' &&
+    typeof value.type === 'string' &&
+    typeof value.size === 'number' &&
+    Number.isInteger(value.size) &&
+    value.size >= 0 &&
+    typeof value.dataUrl === 'string' &&
+    value.dataUrl.startsWith('data:')
+  );
+}
+
+/**
+ * Reads an optional min–max setting. Whole numbers outside the range are
+ * clamped; values that aren't numbers at all can't be trusted to mean
+ * "disabled", so a rule doing so invalidates the safe.
+ */
+function rangedSetting(
+  settings: Fields,
+  key: keyof SafeSettings,
+  max: number,
+  repairs: string[],
+  required: boolean,
+  min = 1,
+): number | undefined {
+  const raw = settings[key];
+  if (raw === undefined || raw === null) {
+    if (raw === null) repairs.push(`settings.${key}`);
+    return undefined;
+  }
+  const value = toInteger(raw);
+  if (value === undefined) {
+    if (required) throw new InvalidSnapshot(`settings.${key} is not a number`);
+    repairs.push(`settings.${key}`);
+    return undefined;
+  }
+  const clamped = Math.min(max, Math.max(min, value));
+  if (clamped !== raw) repairs.push(`settings.${key}`);
+  return clamped;
+}
+
+function validateSettings(value: unknown, repairs: string[]): SafeSettings {
+  if (!isRecord(value)) throw new InvalidSnapshot('settings is missing');
+  let language = value.language as Lang;
+  if (!LANGS.includes(language)) {
+    repairs.push('settings.language');
+    language = 'en';
+  }
+  let survivalEnabled = value.survivalEnabled;
+  if (typeof survivalEnabled !== 'boolean') {
+    repairs.push('settings.survivalEnabled');
+    survivalEnabled = false;
+  }
+  let tamperPolicy = value.tamperPolicy as TamperPolicy | undefined;
+  if (tamperPolicy !== undefined && !TAMPER_POLICIES.includes(tamperPolicy)) {
+    repairs.push('settings.tamperPolicy');
+    tamperPolicy = undefined;
+  }
+  let lockType = value.lockType as LockType | undefined;
+  if (lockType !== undefined && !LOCK_TYPES.includes(lockType)) {
+    repairs.push('settings.lockType');
+    lockType = undefined;
+  }
+  const unlockAt = toTimestamp(value.unlockAt);
+  if (value.unlockAt !== undefined && unlockAt === undefined) {
+    throw new InvalidSnapshot('settings.unlockAt is not a timestamp');
+  }
+  let unlockAtRemembered = toTimestamp(value.unlockAtRemembered);
+  if (value.unlockAtRemembered !== unlockAtRemembered) {
+    repairs.push('settings.unlockAtRemembered');
+    unlockAtRemembered = undefined;
+  }
+  let deadManSwitch = value.deadManSwitch;
+  if (deadManSwitch !== undefined && typeof deadManSwitch !== 'boolean') {
+    repairs.push('settings.deadManSwitch');
+    deadManSwitch = undefined;
+  }
+  let sound = value.sound;
+  if (sound !== undefined && typeof sound !== 'boolean') {
+    repairs.push('settings.sound');
+    sound = undefined;
+  }
+  let motion = value.motion;
+  if (motion !== undefined && typeof motion !== 'boolean') {
+    repairs.push('settings.motion');
+    motion = undefined;
+  }
+  let imageFormat = value.imageFormat;
+  if (
+    imageFormat !== undefined &&
+    imageFormat !== 'webp' &&
+    imageFormat !== 'jpeg'
+  ) {
+    repairs.push('settings.imageFormat');
+    imageFormat = undefined;
+  }
+  let attemptsScope = value.attemptsScope;
+  if (
+    attemptsScope !== undefined &&
+    attemptsScope !== 'global' &&
+    attemptsScope !== 'keyholder'
+  ) {
+    repairs.push('settings.attemptsScope');
+    attemptsScope = undefined;
+  }
+  const keyholders = rangedSetting(value, 'keyholders', 9, repairs, true, 2);
+  const keyholdersRemembered = rangedSetting(
+    value,
+    'keyholdersRemembered',
+    9,
+    repairs,
+    false,
+    2,
+  );
+  let keysRequired = rangedSetting(value, 'keysRequired', 9, repairs, true);
+  // More keys than keyholders could never open the safe.
+  const holders = keyholders ?? keyholdersRemembered;
+  if (
+    keysRequired !== undefined &&
+    holders !== undefined &&
+    keysRequired > holders
+  ) {
+    repairs.push('settings.keysRequired');
+    keysRequired = holders;
+  }
+  return {
+    language,
+    survivalEnabled: survivalEnabled as boolean,
+    survivalChance: rangedSetting(value, 'survivalChance', 100, repairs, true),
+    survivalChanceRemembered: rangedSetting(
+      value,
+      'survivalChanceRemembered',
+      100,
+      repairs,
+      false,
+    ),
+    // Without damage mode explosions take everything, so it can go.
+    damageLevel: rangedSetting(value, 'damageLevel', 100, repairs, false),
+    damageLevelRemembered: rangedSetting(
+      value,
+      'damageLevelRemembered',
+      100,
+      repairs,
+      false,
+    ),
+    autodestructMinutes: rangedSetting(
+      value,
+      'autodestructMinutes',
+      999,
+      repairs,
+      true,
+    ),
+    autodestructMinutesRemembered: rangedSetting(
+      value,
+      'autodestructMinutesRemembered',
+      999,
+      repairs,
+      false,
+    ),
+    deadManSwitch: deadManSwitch as boolean | undefined,
+    countdownWarning: rangedSetting(
+      value,
+      'countdownWarning',
+      100,
+      repairs,
+      false,
+    ),
+    unlockAt,
+    unlockAtRemembered,
+    pinAttemptsLimit: rangedSetting(
+      value,
+      'pinAttemptsLimit',
+      999,
+      repairs,
+      true,
+    ),
+    pinAttemptsLimitRemembered: rangedSetting(
+      value,
+      'pinAttemptsLimitRemembered',
+      999,
+      repairs,
+      false,
+    ),
+    lockoutAfter: rangedSetting(value, 'lockoutAfter', 999, repairs, true),
+    lockoutAfterRemembered: rangedSetting(
+      value,
+      'lockoutAfterRemembered',
+      999,
+      repairs,
+      false,
+    ),
+    tamperPolicy,
+    lockType,
+    keyholders,
+    keyholdersRemembered,
+    keysRequired,
+    attemptsScope: attemptsScope as SafeSettings['attemptsScope'],
+    imageMaxSize: rangedSetting(
+      value,
+      'imageMaxSize',
+      MAX_IMAGE_SIZE,
+      repairs,
+      false,
+    ),
+    imageFormat: imageFormat as SafeSettings['imageFormat'],
+    imageQuality: rangedSetting(value, 'imageQuality', 100, repairs, false),
+    sound: sound as boolean | undefined,
+    motion: motion as boolean | undefined,
+  };
+}
+
+function validateDuress(value: unknown, runtime: SafeRuntime): void {
+  if (value === undefined) return;
+  if (typeof value !== 'string' || !PIN_HASH_FORMAT.test(value)) {
+    throw new InvalidSnapshot('runtime.duressHash has an unknown format');
+  }
+  runtime.duressHash = value;
+}
+
+function validateRuntime(
+  value: unknown,
+  settings: SafeSettings,
+  hosted: boolean,
+  repairs: string[],
+): SafeRuntime {
+  if (!isRecord(value)) throw new InvalidSnapshot('runtime is missing');
+  const state = value.state as SafeState;
+  if (!STATES.includes(state)) {
+    throw new InvalidSnapshot(`runtime.state "${String(value.state)}"`);
+  }
+
+  let attemptsMade = toInteger(value.attemptsMade);
+  if (attemptsMade === undefined) {
+    throw new InvalidSnapshot('runtime.attemptsMade is not a number');
+  }
+  if (attemptsMade !== value.attemptsMade || attemptsMade < 0) {
+    repairs.push('runtime.attemptsMade');
+    attemptsMade = Math.max(0, attemptsMade);
+  }
+
+  if (state === 'open') {
+    const known = ['state', 'attemptsMade', 'main'];
+    if (Object.keys(value).some((key) => !known.includes(key))) {
+      repairs.push('runtime');
+    }
+    if (value.main === undefined) return { state, attemptsMade: 0 };
+    // The real content, left sealed while the decoy is open.
+    if (hosted || !isSealedContent(value.main)) {
+      throw new InvalidSnapshot('runtime.main is damaged');
+    }
+    return { state, attemptsMade: 0, main: value.main };
+  }
+
+  if (state === 'destroyed') {
+    if (value.explosionResult !== 'destroyed') repairs.push('runtime');
+    return { state, attemptsMade: 0, explosionResult: 'destroyed' };
+  }
+
+  // Closed: the safe must stay openable. Hosted safes keep the PIN hash
+  // and sealed content on the server.
+  const runtime: SafeRuntime = { state, attemptsMade };
+  if (value.lockType !== undefined) {
+    // Without its lock type there's no way to enter the secret.
+    if (!LOCK_TYPES.includes(value.lockType as LockType)) {
+      throw new InvalidSnapshot(`runtime.lockType "${String(value.lockType)}"`);
+    }
+    runtime.lockType = value.lockType as LockType;
+  }
+  if (!hosted && value.shared !== undefined) {
+    if (!isSharedSeal(value.shared)) {
+      throw new InvalidSnapshot('runtime.shared is damaged');
+    }
+    runtime.shared = value.shared;
+  } else if (!hosted && value.compartments !== undefined) {
+    const compartments = value.compartments;
+    if (
+      !Array.isArray(compartments) ||
+      compartments.length !== 2 ||
+      !compartments.every(isSealedContent)
+    ) {
+      throw new InvalidSnapshot('runtime.compartments is damaged');
+    }
+    runtime.compartments = [compartments[0], compartments[1]];
+    validateDuress(value.duressHash, runtime);
+  } else if (!hosted) {
+    if (typeof value.pinHash !== 'string') {
+      throw new InvalidSnapshot('closed safe without runtime.pinHash');
+    }
+    const pinHash = PIN_HASH_FORMAT.test(value.pinHash)
+      ? value.pinHash
+      : /^[0-9a-f]{64}$/.test(value.pinHash)
+        ? `sha256$${value.pinHash}`
+        : undefined;
+    if (pinHash === undefined) {
+      throw new InvalidSnapshot('runtime.pinHash has an unknown format');
+    }
+    if (pinHash !== value.pinHash) repairs.push('runtime.pinHash');
+    runtime.pinHash = pinHash;
+    validateDuress(value.duressHash, runtime);
+    if (value.sealed !== undefined) {
+      if (!isSealedContent(value.sealed)) {
+        throw new InvalidSnapshot('runtime.sealed is damaged');
+      }
+      runtime.sealed = value.sealed;
+    }
+  }
+
+  runtime.closedAt = toTimestamp(value.closedAt);
+  if (runtime.closedAt !== value.closedAt) repairs.push('runtime.closedAt');
+  runtime.checkedInAt = toTimestamp(value.checkedInAt);
+  if (runtime.checkedInAt !== value.checkedInAt) {
+    repairs.push('runtime.checkedInAt');
+  }
+
+  // Dropping a cooldown would loosen the rules, so damage here is fatal.
+  if (value.lockouts !== undefined) {
+    const lockouts = toInteger(value.lockouts);
+    if (lockouts === undefined || lockouts < 0) {
+      throw new InvalidSnapshot('runtime.lockouts is not a count');
+    }
+    runtime.lockouts = lockouts;
+  }
+  if (value.lockedUntil !== undefined) {
+    runtime.lockedUntil = toTimestamp(value.lockedUntil);
+    if (runtime.lockedUntil === undefined) {
+      throw new InvalidSnapshot('runtime.lockedUntil is not a timestamp');
+    }
+  }
+  if (value.unlockAt !== undefined) {
+    runtime.unlockAt = toTimestamp(value.unlockAt);
+    if (runtime.unlockAt === undefined) {
+      throw new InvalidSnapshot('runtime.unlockAt is not a timestamp');
+    }
+  }
+
+  if (value.damage !== undefined) {
+    // Dropping the damage would give back what was lost.
+    if (!isDamage(value.damage)) {
+      throw new InvalidSnapshot('runtime.damage is damaged');
+    }
+    runtime.damage = { seed: value.damage.seed, share: value.damage.share };
+  }
+
+  const limit = settings.pinAttemptsLimit;
+  if (limit !== undefined && attemptsCounted(runtime, settings) >= limit) {
+    // The attempt limit was reached, so the safe should already be gone.
+    repairs.push('runtime.state');
+    return {
+      state: 'destroyed',
+      attemptsMade: 0,
+      explosionResult: 'destroyed',
+    };
+  }
+
+  if (value.explosionResult === 'survived') {
+    // Surviving disarms the timer for good.
+    runtime.explosionResult = 'survived';
+    if (value.destructAt !== undefined) repairs.push('runtime.destructAt');
+    return runtime;
+  }
+  if (value.explosionResult !== undefined) {
+    repairs.push('runtime.explosionResult');
+  }
+
+  const destructAt = toTimestamp(value.destructAt);
+  const minutes = settings.autodestructMinutes;
+  if (destructAt !== undefined) {
+    runtime.destructAt = destructAt;
+  } else if (minutes !== undefined && runtime.closedAt !== undefined) {
+    const start = runtime.checkedInAt ?? runtime.closedAt;
+    runtime.destructAt = start + minutes * 60 * 1000;
+  } else if (minutes !== undefined && !hosted) {
+    throw new InvalidSnapshot('armed safe without runtime.destructAt');
+  }
+  if (runtime.destructAt !== value.destructAt) {
+    repairs.push('runtime.destructAt');
+  }
+  // Such a safe would blow up before it could ever be opened.
+  if (
+    runtime.destructAt !== undefined &&
+    runtime.unlockAt !== undefined &&
+    runtime.destructAt < runtime.unlockAt
+  ) {
+    throw new InvalidSnapshot('runtime.destructAt is before runtime.unlockAt');
+  }
+  return runtime;
+}
+
+function isDamage(value: unknown): value is Damage {
+  return (
+    isRecord(value) &&
+    typeof value.seed === 'number' &&
+    Number.isInteger(value.seed) &&
+    value.seed >= 0 &&
+    value.seed < 2 ** 32 &&
+    typeof value.share === 'number' &&
+    value.share > 0 &&
+    value.share < 1
+  );
+}
+
+const CAUSES: ExplosionCause[] = ['timer', 'attempts', 'manual', 'tamper'];
+
+function isJournalEntry(value: unknown): value is JournalEntry {
+  if (!isRecord(value)) return false;
+  if (toTimestamp(value.at) === undefined) return false;
+  if (!STATES.includes(value.state as SafeState)) return false;
+  switch (value.kind) {
+    case 'close':
+    case 'open':
+    case 'settings':
+    case 'tampered':
+    case 'checkIn':
+      return true;
+    case 'wrongPin':
+      return (
+        typeof value.count === 'number' &&
+        Number.isInteger(value.count) &&
+        value.count >= 1
+      );
+    case 'destroyed':
+    case 'survived':
+      return CAUSES.includes(value.cause as ExplosionCause);
+    default:
+      return false;
+  }
+}
+
+/** The journal is only history, so damaged entries are simply dropped. */
+function validateJournal(value: unknown, repairs: string[]): JournalEntry[] {
+  if (!Array.isArray(value)) {
+    repairs.push('journal');
+    return [];
+  }
+  const journal = value.filter(isJournalEntry);
+  if (journal.length !== value.length) repairs.push('journal');
+  return journal;
+}
+
+/**
+ * Sync bookkeeping only decides which tab's copy wins, so a damaged value
+ * is reset rather than rejected.
+ */
+function validateCounter(
+  value: unknown,
+  key: string,
+  repairs: string[],
+): number {
+  const number = toTimestamp(value);
+  if (number !== undefined && Number.isInteger(number)) return number;
+  repairs.push(key);
+  return 0;
+}
+
+/** A malformed tag is dropped; integrity.ts then treats it as missing. */
+function validateIntegrity(
+  value: unknown,
+  repairs: string[],
+): string | undefined {
+  if (value === undefined || typeof value === 'string') return value;
+  repairs.push('integrity');
+  return undefined;
+}
+
+export function validateSnapshot(value: unknown): Validation {
+  const repairs: string[] = [];
+  try {
+    if (!isRecord(value)) throw new InvalidSnapshot('not an object');
+    let id = value.id;
+    if (typeof id !== 'string' || id === '') {
+      repairs.push('id');
+      id = crypto.randomUUID();
+    }
+    let name = value.name;
+    if (typeof name !== 'string') {
+      repairs.push('name');
+      name = '';
+    }
+    let hostedId = value.hostedId;
+    if (hostedId !== undefined && typeof hostedId !== 'string') {
+      throw new InvalidSnapshot('hostedId is not a string');
+    }
+    if (hostedId === '') {
+      repairs.push('hostedId');
+      hostedId = undefined;
+    }
+    const settings = validateSettings(value.settings, repairs);
+    const runtime = validateRuntime(
+      value.runtime,
+      settings,
+      hostedId !== undefined,
+      repairs,
+    );
+    let content = validateContent(value.content, repairs);
+    if (
+      runtime.state === 'destroyed' ||
+      (runtime.state === 'closed' &&
+        (runtime.sealed || runtime.shared || runtime.compartments || hostedId))
+    ) {
+      // Sealed or destroyed safes never hold plaintext.
+      if (content.text !== '' || content.attachments !== undefined) {
+        repairs.push('content');
+      }
+      content = { text: '' };
+    }
+    let decoy: SafeContent | undefined;
+    if (value.decoy !== undefined) {
+      if (runtime.state === 'open') {
+        decoy = validateContent(value.decoy, repairs, 'decoy');
+      } else {
+        repairs.push('decoy');
+      }
+    }
+    return {
+      ok: true,
+      snapshot: {
+        id: id as string,
+        name: name as string,
+        hostedId: hostedId as string | undefined,
+        content,
+        decoy,
+        settings,
+        runtime,
+        journal: validateJournal(value.journal, repairs),
+        revision: validateCounter(value.revision, 'revision', repairs),
+        updatedAt: validateCounter(value.updatedAt, 'updatedAt', repairs),
+        integrity: validateIntegrity(value.integrity, repairs),
+      },
+      repairs,
+    };
+  } catch (error) {
+    if (!(error instanceof InvalidSnapshot)) throw error;
+    return { ok: false, error: error.message };
+  }
+}
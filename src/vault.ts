@@ -0,0 +1,320 @@
+import type {
+  Compartment,
+  Keyholder,
+  SafeContent,
+  SealedContent,
+  SharedSeal,
+} from './types';
+import { upgradeContent } from './attachments';
+import { fromBase64, toBase64 } from './encoding';
+import { PIN_KDF_ITERATIONS } from './pin';
+import { combineShares, splitSecret } from './shamir';
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const CONTENT_KEY_BYTES = 32;
+const COMPARTMENT_BLOCK = 1024;
+
+async function deriveContentKey(
+  pin: string,
+  salt: BufferSource,
+  iterations: number,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(pin),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+async function sealBytes(
+  plaintext: Uint8Array<ArrayBuffer>,
+  pin: string,
+): Promise<SealedContent> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveContentKey(pin, salt, PIN_KDF_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    plaintext,
+  );
+  return {
+    kdf: 'PBKDF2-SHA256',
+    iterations: PIN_KDF_ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypts sealed bytes. Rejects when the PIN is wrong, since the AES-GCM
+ * tag only verifies with the key derived from the right PIN.
+ */
+async function unsealBytes(
+  sealed: SealedContent,
+  pin: string,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const key = await deriveContentKey(
+    pin,
+    fromBase64(sealed.salt),
+    sealed.iterations,
+  );
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(sealed.iv) },
+    key,
+    fromBase64(sealed.data),
+  );
+  return new Uint8Array(plaintext);
+}
+
+/** Reads sealed JSON content, upgrading the shape older versions sealed. */
+function readContent(plaintext: Uint8Array): SafeContent {
+  return upgradeContent(
+    JSON.parse(new TextDecoder().decode(plaintext)) as SafeContent,
+  );
+}
+
+export async function sealContent(
+  content: SafeContent,
+  pin: string,
+): Promise<SealedContent> {
+  return sealBytes(new TextEncoder().encode(JSON.stringify(content)), pin);
+}
+
+/** Decrypts sealed content; rejects when the PIN is wrong. */
+export async function unsealContent(
+  sealed: SealedContent,
+  pin: string,
+): Promise<SafeContent> {
+  return readContent(await unsealBytes(sealed, pin));
+}
+
+/** JSON padded with spaces to at least `size` bytes, in whole blocks. */
+function padded(json: Uint8Array, size: number): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(
+    Math.ceil(Math.max(json.length, size) / COMPARTMENT_BLOCK) *
+      COMPARTMENT_BLOCK,
+  ).fill(0x20);
+  bytes.set(json);
+  return bytes;
+}
+
+function shuffled(
+  sealed: [SealedContent, SealedContent],
+): [SealedContent, SealedContent] {
+  return crypto.getRandomValues(new Uint8Array(1))[0] & 1
+    ? [sealed[1], sealed[0]]
+    : sealed;
+}
+
+/**
+ * Seals a safe into two compartments that look alike: the same layout and,
+ * thanks to whitespace padding after the JSON, the same size. The main one
+ * holds everything and opens with `pin`; the other holds only the decoy
+ * and opens with `decoyPin`, or with nothing if there is no decoy. The
+ * order is random, so storage doesn't tell which is which.
+ */
+export async function sealCompartments(
+  compartment: Compartment,
+  pin: string,
+  decoyPin: string | undefined,
+): Promise<[SealedContent, SealedContent]> {
+  const encoder = new TextEncoder();
+  // Only the main one has a decoy field, which is how it's told apart. It
+  // keeps the decoy PIN too, to pick up what was edited behind the decoy.
+  const main = encoder.encode(
+    JSON.stringify({
+      content: compartment.content,
+      decoy: compartment.decoy ?? { text: '' },
+      decoyPin,
+    }),
+  );
+  const decoy = encoder.encode(
+    JSON.stringify({ content: compartment.decoy ?? { text: '' } }),
+  );
+  const size = Math.max(main.length, decoy.length);
+  // Without a decoy PIN the second compartment opens with nothing at all.
+  const unusedPin = toBase64(crypto.getRandomValues(new Uint8Array(32)));
+  return shuffled(
+    await Promise.all([
+      sealBytes(padded(main, size), pin),
+      sealBytes(padded(decoy, size), decoyPin ?? unusedPin),
+    ]),
+  );
+}
+
+/**
+ * Seals the decoy again beside the main compartment, which stayed sealed
+ * because the decoy PIN opened the safe. Undefined when `pin` opens the
+ * main compartment too.
+ */
+export async function resealDecoy(
+  main: SealedContent,
+  decoy: SafeContent,
+  pin: string,
+): Promise<[SealedContent, SealedContent] | undefined> {
+  const opensMain = await unsealBytes(main, pin).then(
+    () => true,
+    () => false,
+  );
+  if (opensMain) return undefined;
+  const json = new TextEncoder().encode(JSON.stringify({ content: decoy }));
+  // The main compartment's padded size is its ciphertext less the tag.
+  const size = fromBase64(main.data).length - TAG_BYTES;
+  return shuffled([main, await sealBytes(padded(json, size), pin)]);
+}
+
+/**
+ * Opens whichever compartment `pin` fits; undefined if it fits neither.
+ * When it is the decoy, the main compartment is handed back still sealed,
+ * to be kept as it is. When it is the main one, the decoy comes from the
+ * decoy compartment if its PIN still opens it, as it may have been edited
+ * since, or else from the copy sealed with the main one.
+ */
+export async function unsealCompartments(
+  compartments: [SealedContent, SealedContent],
+  pin: string,
+): Promise<Compartment | undefined> {
+  // Both are always tried, so the time taken doesn't tell them apart.
+  const opened = await Promise.all(
+    compartments.map((sealed) =>
+      unsealBytes(sealed, pin).catch(() => undefined),
+    ),
+  );
+  const index = opened.findIndex((bytes) => bytes !== undefined);
+  const plaintext = opened[index];
+  if (!plaintext) return undefined;
+  const { content, decoy, decoyPin } = JSON.parse(
+    new TextDecoder().decode(plaintext),
+  ) as Compartment & { decoyPin?: string };
+  const other = compartments[1 - index];
+  if (!decoy) return { content: upgradeContent(content), main: other };
+  const edited =
+    decoyPin === undefined
+      ? undefined
+      : await unsealBytes(other, decoyPin).then(
+          (bytes) =>
+            (JSON.parse(new TextDecoder().decode(bytes)) as Compartment)
+              .content,
+          () => undefined,
+        );
+  return {
+    content: upgradeContent(content),
+    decoy: upgradeContent(edited ?? decoy),
+  };
+}
+
+/**
+ * Seals content for several keyholders. The content is encrypted under a
+ * random key, the key is split so that any `required` shares rebuild it,
+ * and each share is sealed with one keyholder's PIN.
+ */
+export async function sealShared(
+  content: SafeContent,
+  pins: string[],
+  required: number,
+): Promise<SharedSeal> {
+  const secret = crypto.getRandomValues(new Uint8Array(CONTENT_KEY_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await crypto.subtle.importKey('raw', secret, 'AES-GCM', false, [
+    'encrypt',
+  ]);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(content)),
+  );
+  const shares = splitSecret(secret, pins.length, required);
+  const keyholders = await Promise.all(
+    shares.map(async (share, index) => ({
+      share: await sealBytes(share, pins[index]),
+      attemptsMade: 0,
+    })),
+  );
+  return {
+    required,
+    keyholders,
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/** One keyholder's key share; rejects when their PIN is wrong. */
+export async function unsealShare(
+  shared: SharedSeal,
+  keyholder: number,
+  pin: string,
+): Promise<Uint8Array<ArrayBuffer>> {
+  return unsealBytes(shared.keyholders[keyholder].share, pin);
+}
+
+/** Decrypts content once `required` key shares were unsealed. */
+export async function unsealShared(
+  shared: SharedSeal,
+  shares: Uint8Array[],
+): Promise<SafeContent> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    combineShares(shares),
+    'AES-GCM',
+    false,
+    ['decrypt'],
+  );
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(shared.iv) },
+    key,
+    fromBase64(shared.data),
+  );
+  return readContent(new Uint8Array(plaintext));
+}
+
+export function isSealedContent(value: unknown): value is SealedContent {
+  if (typeof value !== 'object' || value === null) return false;
+  const sealed = value as Record<string, unknown>;
+  return (
+    sealed.kdf === 'PBKDF2-SHA256' &&
+    Number.isInteger(sealed.iterations) &&
+    typeof sealed.salt === 'string' &&
+    typeof sealed.iv === 'string' &&
+    typeof sealed.data === 'string'
+  );
+}
+
+function isKeyholder(value: unknown): value is Keyholder {
+  if (typeof value !== 'object' || value === null) return false;
+  const keyholder = value as Record<string, unknown>;
+  return (
+    isSealedContent(keyholder.share) &&
+    typeof keyholder.attemptsMade === 'number' &&
+    Number.isInteger(keyholder.attemptsMade) &&
+    keyholder.attemptsMade >= 0
+  );
+}
+
+export function isSharedSeal(value: unknown): value is SharedSeal {
+  if (typeof value !== 'object' || value === null) return false;
+  const shared = value as Record<string, unknown>;
+  return (
+    Array.isArray(shared.keyholders) &&
+    shared.keyholders.length >= 2 &&
+    shared.keyholders.every(isKeyholder) &&
+    typeof shared.required === 'number' &&
+    Number.isInteger(shared.required) &&
+    shared.required >= 1 &&
+    shared.required <= shared.keyholders.length &&
+    typeof shared.iv === 'string' &&
+    typeof shared.data === 'string'
+  );
+}
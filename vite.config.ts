@@ -1,3 +1,81 @@
-import { defineConfig } from 'vite';
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { defineConfig, type Plugin } from 'vite';
 
-export default defineConfig({});
+const SERVICE_WORKER = 'sw.js';
+
+function listFiles(dir: string, prefix = ''): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+    entry.isDirectory()
+      ? listFiles(join(dir, entry.name), `${prefix}${entry.name}/`)
+      : [`${prefix}${entry.name}`],
+  );
+}
+
+/**
+ * Tells the service worker what to cache: every file of the build and of
+ * public/, and a version hashed from all of them, so any change to the app
+ * ships as a new worker.
+ */
+function serviceWorker(): Plugin {
+  let publicDir = '';
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle: {
+      order: 'post',
+      handler(_, bundle) {
+        const worker = bundle[SERVICE_WORKER];
+        if (worker?.type !== 'chunk') return;
+        const hash = createHash('sha256');
+        const files: string[] = [];
+        for (const [name, output] of Object.entries(bundle)) {
+          if (name === SERVICE_WORKER || name.endsWith('.map')) continue;
+          hash.update(name);
+          hash.update(output.type === 'chunk' ? output.code : output.source);
+          // The page itself is cached as '/', which is where it is served.
+          if (name !== 'index.html') files.push(name);
+        }
+        for (const name of publicDir ? listFiles(publicDir) : []) {
+          hash.update(name);
+          hash.update(readFileSync(join(publicDir, name)));
+          files.push(name);
+        }
+        const precache = ['/', ...files.map((name) => `/${name}`)];
+        const version = hash.digest('hex').slice(0, 16);
+        worker.code =
+          `const PRECACHE = ${JSON.stringify(precache)};\n` +
+          `const VERSION = '${version}';\n` +
+          worker.code;
+      },
+    },
+  };
+}
+
+export default defineConfig({
+  plugins: [serviceWorker()],
+  build: {
+    rollupOptions: {
+      input: {
+        index: 'index.html',
+        sw: 'src/serviceWorker.ts',
+      },
+      output: {
+        // The worker needs a fixed address to be found again for updates.
+        entryFileNames: (chunk) =>
+          chunk.name === 'sw' ? SERVICE_WORKER : 'assets/[name]-[hash].js',
+      },
+    },
+  },
+  server: {
+    // Hosted safes are served by the Worker; run `npm run dev:worker`
+    // alongside `npm run dev` to try them locally.
+    proxy: {
+      '/api': 'http://localhost:8787',
+    },
+  },
+});
@@ -1,5 +1,23 @@
+import {
+  isLockedOut,
+  isTimeLocked,
+  reduce,
+  spawnSafe,
+  type SafeEvent,
+} from './src/safeMachine';
+import { verifyPin } from './src/pin';
+import { isHostedCloseRequest, type HostedResponse } from './src/hosted';
+import type { SafeRuntime, SafeSnapshot, SealedContent } from './src/types';
+
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    if (
+      url.pathname === '/api/safes' ||
+      url.pathname.startsWith('/api/safes/')
+    ) {
+      return routeHostedSafe(request, url, env);
+    }
     return env.ASSETS.fetch(request);
   },
 };
@@ -8,4 +26,263 @@ interface Env {
   ASSETS: {
     fetch(request: Request): Promise<Response>;
   };
+  SAFES: DurableObjectNamespace;
+}
+
+interface DurableObjectId {
+  toString(): string;
+}
+
+interface DurableObjectNamespace {
+  newUniqueId(): DurableObjectId;
+  idFromString(id: string): DurableObjectId;
+  get(id: DurableObjectId): {
+    fetch(request: Request): Promise<Response>;
+  };
+}
+
+interface DurableObjectState {
+  id: DurableObjectId;
+  storage: {
+    get<T>(key: string): Promise<T | undefined>;
+    put<T>(key: string, value: T): Promise<void>;
+    delete(key: string): Promise<boolean>;
+    setAlarm(scheduledTime: number): Promise<void>;
+    deleteAlarm(): Promise<void>;
+  };
+}
+
+const ACTIONS = ['status', 'close', 'attempt', 'checkin', 'explode'] as const;
+type Action = (typeof ACTIONS)[number] | 'create';
+
+/** What opened a safe, kept until it closes again; see 'attempt'. */
+interface OpenedSeal {
+  pinHash: string;
+  sealed?: SealedContent;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Checks a PIN, or undefined when the hash can't be checked at all: Workers
+ * reject PBKDF2 above 100k iterations, and a hash stored before close
+ * requests were checked may ask for more.
+ */
+async function checkPin(
+  pin: string,
+  pinHash: string,
+): Promise<boolean | undefined> {
+  try {
+    return await verifyPin(pin, pinHash);
+  } catch {
+    return undefined;
+  }
+}
+
+function unverifiable(): Response {
+  return json({ error: 'PIN hash cannot be verified' }, 422);
+}
+
+/**
+ * The runtime as clients see it. The PIN hash and ciphertext never leave
+ * the server with a status response, so they can't be brute-forced
+ * offline.
+ */
+function publicRuntime(runtime: SafeRuntime): SafeRuntime {
+  const visible = { ...runtime };
+  delete visible.pinHash;
+  delete visible.sealed;
+  return visible;
+}
+
+/**
+ * `POST /api/safes` creates a hosted safe; `GET /api/safes/:id` reports its
+ * status and `POST /api/safes/:id/{close,attempt,checkin,explode}` drives
+ * it. Each safe lives in its own Durable Object, so requests for one safe
+ * are serialized.
+ */
+async function routeHostedSafe(
+  request: Request,
+  url: URL,
+  env: Env,
+): Promise<Response> {
+  const [, , , hostedId, verb, ...rest] = url.pathname.split('/');
+  let action: Action;
+  if (hostedId === undefined || hostedId === '') {
+    action = 'create';
+  } else if (verb === undefined) {
+    action = 'status';
+  } else {
+    action = verb as Action;
+  }
+  if (
+    rest.length > 0 ||
+    (action !== 'create' && !ACTIONS.includes(action)) ||
+    request.method !== (action === 'status' ? 'GET' : 'POST')
+  ) {
+    return json({ error: 'Not found' }, 404);
+  }
+
+  let id: DurableObjectId;
+  try {
+    id =
+      action === 'create'
+        ? env.SAFES.newUniqueId()
+        : env.SAFES.idFromString(hostedId);
+  } catch {
+    return json({ error: 'Not found' }, 404);
+  }
+  return env.SAFES.get(id).fetch(
+    new Request(`https://hosted-safe/${action}`, {
+      method: 'POST',
+      body: request.method === 'POST' ? await request.text() : undefined,
+    }),
+  );
+}
+
+/**
+ * Server side of a hosted safe. It runs the same reducer as the browser,
+ * with the Worker's clock, and arms a Durable Object alarm for the
+ * autodestruct deadline so it fires even when nobody is watching.
+ */
+export class HostedSafe {
+  constructor(private readonly state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const action = new URL(request.url).pathname.slice(1) as Action;
+    let snapshot = await this.state.storage.get<SafeSnapshot>('snapshot');
+
+    if (action === 'create') {
+      if (snapshot) return json({ error: 'Already exists' }, 409);
+      snapshot = spawnSafe();
+      await this.save(snapshot);
+      return json(this.view(snapshot));
+    }
+    if (!snapshot) return json({ error: 'Not found' }, 404);
+
+    snapshot = this.apply(snapshot, { type: 'tick', now: Date.now() });
+    let sealed: SealedContent | undefined;
+
+    switch (action) {
+      case 'close': {
+        const body: unknown = await request.json().catch(() => undefined);
+        if (!isHostedCloseRequest(body)) {
+          return json({ error: 'Invalid close request' }, 400);
+        }
+        if (snapshot.runtime.state === 'open') {
+          snapshot = {
+            ...snapshot,
+            settings: { ...snapshot.settings, ...body.rules },
+          };
+        }
+        snapshot = this.apply(snapshot, {
+          type: 'close',
+          pinHash: body.pinHash,
+          sealed: body.sealed,
+          now: Date.now(),
+        });
+        if (snapshot.runtime.state === 'closed') {
+          await this.state.storage.delete('opened');
+        }
+        break;
+      }
+      case 'attempt':
+      case 'checkin': {
+        const body = (await request.json().catch(() => undefined)) as
+          | { pin?: unknown }
+          | undefined;
+        if (typeof body?.pin !== 'string' || body.pin === '') {
+          return json({ error: 'Invalid attempt request' }, 400);
+        }
+        const { runtime } = snapshot;
+        const now = Date.now();
+        if (runtime.state === 'open' && action === 'attempt') {
+          // The content may never have reached the player, e.g. the tab
+          // closed before decrypting it, so the same PIN gets it again
+          // until the safe is closed.
+          const opened = await this.state.storage.get<OpenedSeal>('opened');
+          if (!opened) break;
+          const verified = await checkPin(body.pin, opened.pinHash);
+          if (verified === undefined) return unverifiable();
+          if (verified) sealed = opened.sealed;
+          break;
+        }
+        if (
+          runtime.state !== 'closed' ||
+          isLockedOut(runtime, now) ||
+          isTimeLocked(runtime, now)
+        ) {
+          break;
+        }
+        const { pinHash } = runtime;
+        const verified =
+          pinHash !== undefined && (await checkPin(body.pin, pinHash));
+        if (verified === undefined) return unverifiable();
+        if (verified && action === 'checkin') {
+          snapshot = this.apply(snapshot, { type: 'checkIn', now });
+        } else if (verified) {
+          sealed = runtime.sealed;
+          await this.state.storage.put<OpenedSeal>('opened', {
+            pinHash,
+            sealed,
+          });
+          snapshot = this.apply(snapshot, {
+            type: 'open',
+            content: { text: '' },
+            now,
+          });
+        } else {
+          snapshot = this.apply(snapshot, { type: 'wrongPin', now });
+        }
+        break;
+      }
+      case 'explode':
+        snapshot = this.apply(snapshot, { type: 'explode' });
+        break;
+      case 'status':
+        break;
+    }
+
+    await this.save(snapshot);
+    return json({ ...this.view(snapshot), sealed });
+  }
+
+  async alarm(): Promise<void> {
+    const snapshot = await this.state.storage.get<SafeSnapshot>('snapshot');
+    if (!snapshot) return;
+    await this.save(this.apply(snapshot, { type: 'tick', now: Date.now() }));
+  }
+
+  private apply(snapshot: SafeSnapshot, event: SafeEvent): SafeSnapshot {
+    const queue: SafeEvent[] = [event];
+    while (queue.length) {
+      const e = queue.shift()!;
+      const [next, emitted] = reduce(snapshot, e);
+      snapshot = next;
+      queue.push(...emitted);
+    }
+    return snapshot;
+  }
+
+  private async save(snapshot: SafeSnapshot): Promise<void> {
+    await this.state.storage.put('snapshot', snapshot);
+    const { state, destructAt } = snapshot.runtime;
+    if (state === 'closed' && destructAt !== undefined) {
+      await this.state.storage.setAlarm(destructAt);
+    } else {
+      await this.state.storage.deleteAlarm();
+    }
+  }
+
+  private view(snapshot: SafeSnapshot): HostedResponse {
+    return {
+      hostedId: this.state.id.toString(),
+      runtime: publicRuntime(snapshot.runtime),
+    };
+  }
 }